@@ -4,7 +4,7 @@
  * This file handles all form interactions and API calls
  */
 
-import { Mielto } from '../../src/index';
+import { Mielto, AbortError } from '../../src/index';
 
 // Initialize client (will be set when API key is provided)
 let client: Mielto | null = null;
@@ -103,20 +103,26 @@ chatForm.addEventListener('submit', async (e) => {
     messages.push({ role: 'user', content: userMessage });
 
     if (stream) {
+      // Streams over fetch and ReadableStream, like in Node.js and edge runtimes
       const response = await client.chat.completions.create({
         model,
         messages,
         stream: true,
       });
 
-      if (Symbol.asyncIterator in response) {
-        let fullResponse = '';
-        const responseDiv = document.getElementById('chatResponse');
-        if (responseDiv) {
-          responseDiv.classList.add('show', 'success');
-          responseDiv.innerHTML = '<h3>Streaming Response</h3><div class="response-content"></div>';
-          const contentDiv = responseDiv.querySelector('.response-content') as HTMLElement;
-          
+      // Stop cancels the request and ends the stream with an AbortError
+      const stopButton = document.getElementById('chatStop') as HTMLButtonElement;
+      stopButton.hidden = false;
+      stopButton.onclick = () => response.controller.abort();
+
+      let fullResponse = '';
+      const responseDiv = document.getElementById('chatResponse');
+      if (responseDiv) {
+        responseDiv.className = 'response-section show success';
+        responseDiv.innerHTML = '<h3>Streaming Response</h3><div class="response-content"></div>';
+        const contentDiv = responseDiv.querySelector('.response-content') as HTMLElement;
+
+        try {
           for await (const chunk of response) {
             const content = chunk.choices[0]?.delta?.content;
             if (content) {
@@ -125,6 +131,15 @@ chatForm.addEventListener('submit', async (e) => {
               contentDiv.textContent = fullResponse;
             }
           }
+          const completion = await response.finalCompletion();
+          console.log('Finish reason:', completion.choices[0]?.finish_reason, 'usage:', completion.usage);
+        } catch (error) {
+          if (!(error instanceof AbortError)) {
+            throw error;
+          }
+          contentDiv.textContent = `${fullResponse}\n\n[stopped]`;
+        } finally {
+          stopButton.hidden = true;
         }
       }
     } else {
@@ -134,13 +149,11 @@ chatForm.addEventListener('submit', async (e) => {
         stream: false,
       });
 
-      if ('choices' in response) {
-        showResponse('chatResponse', {
-          message: response.choices[0]?.message?.content,
-          usage: response.usage,
-          model: response.model,
-        });
-      }
+      showResponse('chatResponse', {
+        message: response.choices[0]?.message?.content,
+        usage: response.usage,
+        model: response.model,
+      });
     }
   } catch (error: any) {
     showResponse('chatResponse', {
@@ -30,13 +30,10 @@ async function main() {
     stream: false,
   });
 
-  // Type guard to check if it's a ChatCompletion (not a stream)
-  if ('choices' in response) {
-    const content = response.choices[0]?.message?.content;
-    const displayContent = typeof content === 'string' ? content : JSON.stringify(content);
-    console.log('Response:', displayContent);
-    console.log('Usage:', response.usage);
-  }
+  const content = response.choices[0]?.message?.content;
+  const displayContent = typeof content === 'string' ? content : JSON.stringify(content);
+  console.log('Response:', displayContent);
+  console.log('Usage:', response.usage);
   console.log('');
 
   console.log('=== Streaming Chat Completion ===\n');
@@ -53,18 +50,20 @@ async function main() {
     stream: true,
   });
 
-  // Check if it's a stream
-  if (Symbol.asyncIterator in streamResponse) {
-    console.log('Streaming response:');
-    for await (const chunk of streamResponse) {
-      const content = chunk.choices[0]?.delta?.content;
-      if (content) {
-        const text = typeof content === 'string' ? content : JSON.stringify(content);
-        process.stdout.write(text);
-      }
+  console.log('Streaming response:');
+  for await (const chunk of streamResponse) {
+    const content = chunk.choices[0]?.delta?.content;
+    if (content) {
+      const text = typeof content === 'string' ? content : JSON.stringify(content);
+      process.stdout.write(text);
     }
-    console.log('\n');
   }
+  console.log('\n');
+
+  // The chunks assembled into a complete response
+  const finalCompletion = await streamResponse.finalCompletion();
+  console.log('Finish reason:', finalCompletion.choices[0]?.finish_reason);
+  console.log('');
 
   // Chat with tools/function calling
   console.log('=== Chat with Tools ===\n');
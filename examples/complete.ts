@@ -32,11 +32,9 @@ async function main() {
         max_tokens: 100,
         stream: false,
       });
-      if ('choices' in chatResponse) {
-        const content = chatResponse.choices[0]?.message?.content;
-        const displayContent = typeof content === 'string' ? content.substring(0, 100) : JSON.stringify(content).substring(0, 100);
-        console.log('✅ Chat response:', displayContent + '...\n');
-      }
+      const content = chatResponse.choices[0]?.message?.content;
+      const displayContent = typeof content === 'string' ? content.substring(0, 100) : JSON.stringify(content).substring(0, 100);
+      console.log('✅ Chat response:', displayContent + '...\n');
     } catch (error) {
       console.log('❌ Chat error:', error instanceof MieltoError ? error.message : String(error));
     }
@@ -0,0 +1,52 @@
+/**
+ * Example: Automatic tool calling with chat.completions.runTools
+ *
+ * The runner calls Mielto's chat completions endpoint, executes the Mielto
+ * tools the model asks for, sends back the results and repeats until the
+ * model answers.
+ *
+ * Run with: npm run example:tools-run
+ */
+
+import { Mielto } from "../src/index"
+import { MieltoTools } from "../src/tools"
+
+async function main() {
+	const client = new Mielto()
+	const tools = new MieltoTools({ userId: "user_123" }, { toolTypes: "memory" }, client)
+
+	// Example 1: Non-streaming
+	console.log("=== Example 1: Run Tools ===")
+	const result = await client.chat.completions.runTools({
+		model: "gpt-4o",
+		messages: [
+			{ role: "user", content: "Remember that I prefer TypeScript, then tell me what you know about me." },
+		],
+		tools,
+		maxSteps: 5,
+		onToolCall: (toolCall, step) => {
+			console.log(`[step ${step}] ${toolCall.function.name}(${toolCall.function.arguments})`)
+		},
+	})
+
+	console.log("Answer:", result.completion.choices[0]?.message.content)
+	console.log("Steps:", result.steps.length, "Usage:", result.usage)
+	console.log("Transcript roles:", result.messages.map((message) => message.role).join(" → "))
+
+	// Example 2: Streaming each step
+	console.log("\n=== Example 2: Streaming ===")
+	await client.chat.completions.runTools({
+		model: "gpt-4o",
+		messages: [{ role: "user", content: "What are my programming preferences?" }],
+		tools,
+		stream: true,
+		onStream: (stream) => {
+			stream.on("content.delta", ({ delta }) => process.stdout.write(delta))
+			stream.on("tool_call.done", ({ toolCall }) => console.log(`\nCalling ${toolCall.function.name}...`))
+		},
+	})
+	console.log()
+}
+
+// Run the example
+main().catch(console.error)
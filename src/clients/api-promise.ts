@@ -0,0 +1,94 @@
+/** Promise type returned by resource methods, exposing raw response metadata. */
+
+export interface APIResponseMetadata {
+  status: number;
+  /** Response headers with lower-cased names. */
+  headers: Record<string, string>;
+  /** Request ID assigned by the API. Include it in support tickets. */
+  requestId?: string;
+}
+
+export interface APIResponse<T> extends APIResponseMetadata {
+  data: T;
+}
+
+/**
+ * Read the request ID from response headers.
+ */
+export function getRequestId(headers?: Record<string, string>): string | undefined {
+  return headers?.['x-request-id'] || headers?.['request-id'] || undefined;
+}
+
+/**
+ * A promise for the response data that can also resolve to the full response.
+ *
+ * @example
+ * ```typescript
+ * const memory = await client.memories.get('mem_123');
+ *
+ * const { data, status, headers, requestId } = await client.memories.get('mem_123').withResponse();
+ * ```
+ */
+export class APIPromise<T> extends Promise<T> {
+  private dataPromise?: Promise<T>;
+
+  constructor(private responsePromise: Promise<APIResponse<T>>) {
+    // The settled value is never observed: then/catch/finally are delegated below
+    super(resolve => resolve(null as any));
+  }
+
+  /**
+   * Build an APIPromise from an async function that ends in a request, so
+   * errors thrown while preparing the request reject the returned promise.
+   */
+  static from<T>(fn: () => Promise<APIResponse<T>>): APIPromise<T> {
+    return new APIPromise(fn());
+  }
+
+  /**
+   * Transform the response data while keeping the response metadata.
+   */
+  _thenUnwrap<U>(transform: (data: T, response: APIResponse<T>) => U): APIPromise<U> {
+    return new APIPromise(
+      this.responsePromise.then(response => ({ ...response, data: transform(response.data, response) }))
+    );
+  }
+
+  /**
+   * Resolve to the data together with status, headers and request ID.
+   */
+  withResponse(): Promise<APIResponse<T>> {
+    return this.responsePromise;
+  }
+
+  /**
+   * Resolve to the status, headers and request ID only.
+   */
+  asResponse(): Promise<APIResponseMetadata> {
+    return this.responsePromise.then(({ status, headers, requestId }) => ({ status, headers, requestId }));
+  }
+
+  private parse(): Promise<T> {
+    if (!this.dataPromise) {
+      this.dataPromise = this.responsePromise.then(response => response.data);
+    }
+    return this.dataPromise;
+  }
+
+  override then<TResult1 = T, TResult2 = never>(
+    onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | null
+  ): Promise<TResult1 | TResult2> {
+    return this.parse().then(onfulfilled, onrejected);
+  }
+
+  override catch<TResult = never>(
+    onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | null
+  ): Promise<T | TResult> {
+    return this.parse().catch(onrejected);
+  }
+
+  override finally(onfinally?: (() => void) | null): Promise<T> {
+    return this.parse().finally(onfinally);
+  }
+}
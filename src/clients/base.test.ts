@@ -0,0 +1,32 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { FakeMieltoServer } from '../testing';
+
+describe('BaseClient.withOptions', () => {
+  it('shares middleware with the parent, including middleware added later', async () => {
+    const server = new FakeMieltoServer();
+    const parent = server.createClient();
+    const seen: string[] = [];
+    parent.use({ onRequest: () => void seen.push('before') });
+
+    const child = parent.withOptions({ userId: 'user_123' });
+    parent.use({ onRequest: () => void seen.push('after') });
+
+    await child.memories.list();
+    assert.deepEqual(seen, ['before', 'after']);
+  });
+
+  it('injects its own defaults without changing the parent', async () => {
+    const server = new FakeMieltoServer();
+    const parent = server.createClient();
+    const child = parent.withOptions({ userId: 'user_123', headers: { 'X-Tenant': 'acme' } });
+
+    await child.memories.create({ memory: 'Prefers dark mode' });
+    assert.equal(server.requests[0].body.user_id, 'user_123');
+    assert.equal(server.requests[0].headers['x-tenant'], 'acme');
+
+    await parent.memories.create({ user_id: 'user_456', memory: 'Prefers light mode' });
+    assert.equal(server.requests[1].body.user_id, 'user_456');
+    assert.equal(server.requests[1].headers['x-tenant'], undefined);
+  });
+});
@@ -1,6 +1,5 @@
 /** Base HTTP client for Mielto API. */
 
-import axios, { AxiosInstance, AxiosError, AxiosRequestConfig } from 'axios';
 import {
   MieltoError,
   AuthenticationError,
@@ -9,150 +8,644 @@ import {
   ValidationError,
   RateLimitError,
   ServerError,
-  TimeoutError,
   ConnectionError,
+  AbortError,
+  CircuitOpenError,
+  ResponseValidationError,
   PaymentRequiredError,
   CreditLimitExceededError,
   OverageLimitExceededError,
   ErrorResponse,
+  ErrorMetadata,
 } from '../exceptions';
+import {
+  calculateRetryDelay,
+  shouldRetry,
+  getRetryAfterMs,
+  sleep,
+  MAX_RETRY_AFTER_MS,
+} from './retry';
+import { Transport, TransportRequest, TransportResponse, FetchTransport, parseBody } from './transport';
+import { Middleware, MiddlewareContext } from './middleware';
+import { APIPromise, APIResponse, getRequestId } from './api-promise';
+import { RequestLimiter, LimiterOptions } from './limiter';
+import { CircuitBreaker, CircuitBreakerOptions, getEndpointFamily } from './circuit-breaker';
+import { Logger, LogLevel, createLogger, redactHeaders, redactBody } from './logger';
+import {
+  TraceSpan,
+  NOOP_SPAN,
+  startSpan,
+  getOperationName,
+  usageAttributes,
+  traceStream,
+} from './tracing';
+import { UsageTracker, UsageTrackerOptions } from './usage';
+import { RESPONSE_SCHEMAS, checkResponse } from '../schemas/responses';
+
+/**
+ * Returns the current API key, e.g. from a secrets manager or a token endpoint.
+ * Called for every request and once more after an authentication failure.
+ */
+export type ApiKeyProvider = () => string | Promise<string>;
 
 export interface BaseClientOptions {
-  apiKey: string;
+  apiKey: string | ApiKeyProvider;
   baseUrl?: string;
   timeout?: number;
   maxRetries?: number;
+  transport?: Transport;
+  /** Client-side rate limit applied to every request attempt. */
+  rateLimit?: LimiterOptions['rateLimit'];
+  /** Maximum number of requests in flight at once. */
+  maxConcurrency?: number;
+  /** Fail fast per endpoint family after repeated server or network failures. */
+  circuitBreaker?: boolean | CircuitBreakerOptions;
+  /** Destination for SDK logs. Defaults to `console`. */
+  logger?: Logger;
+  /** Minimum level to log; `debug` logs every request. Defaults to `info`. */
+  logLevel?: LogLevel;
+  /** Create OpenTelemetry spans when `@opentelemetry/api` is installed. Defaults to true. */
+  tracing?: boolean;
+  /** Check response bodies against the SDK's zod schemas; `warn` logs mismatches instead of throwing. */
+  validateResponses?: 'strict' | 'warn';
+  /** Aggregate token, compress and upload usage; pass a tracker to share it between clients. */
+  usageTracker?: boolean | UsageTrackerOptions | UsageTracker;
+}
+
+/** Per-call options accepted by every resource method. */
+export interface RequestOptions {
+  /** Cancels the request, any pending retries and an open stream. */
+  signal?: AbortSignal;
+  /** Override the client's timeout for this call, in milliseconds. */
+  timeout?: number;
+  /** Extra headers sent with this call. */
+  headers?: Record<string, string>;
+  /** Override the client's maxRetries for this call. */
+  maxRetries?: number;
+  /**
+   * Whether the call can be safely replayed, so timeouts and server errors are
+   * retried. Defaults to true for GET, HEAD, OPTIONS, PUT and DELETE; read-only
+   * POST endpoints such as searches set it.
+   */
+  idempotent?: boolean;
+  /** Tags this call's usage is attributed to, in addition to the client's. */
+  usageTags?: string[];
+}
+
+/** Query parameters, body and extra headers of a single request. */
+export interface RequestConfig {
+  params?: Record<string, any>;
+  data?: any;
+  headers?: Record<string, string>;
+}
+
+/** Defaults injected into request payloads by resources of a scoped client. */
+export interface ClientDefaults {
+  userId?: string;
+  workspaceId?: string;
+  collectionIds?: string[];
+}
+
+/** Options for deriving a scoped client with `withOptions`. */
+export interface ClientScopeOptions extends ClientDefaults {
+  /** Headers added to every request of the scoped client. */
+  headers?: Record<string, string>;
+  timeout?: number;
+  maxRetries?: number;
+  /** Tags added to the usage of every request of the scoped client. */
+  usageTags?: string[];
 }
 
+/** Delay before the first retry; later retries back off exponentially. */
+const INITIAL_RETRY_DELAY = 500;
+const MAX_RETRY_DELAY = 8000;
+
 export class BaseClient {
-  protected client: AxiosInstance;
-  protected apiKey: string;
+  protected transport: Transport;
+  protected apiKey: string | ApiKeyProvider;
   protected baseUrl: string;
   protected timeout: number;
   protected maxRetries: number;
+  protected middleware: Middleware[] = [];
+  protected defaultHeaders: Record<string, string> = {};
+  public defaults: ClientDefaults = {};
+  /** Shared limiter, set when `rateLimit` or `maxConcurrency` is configured. */
+  public readonly limiter?: RequestLimiter;
+  /** Shared circuit breaker, set when `circuitBreaker` is configured. */
+  public readonly circuitBreaker?: CircuitBreaker;
+  /** Leveled logger used by the client and its resources. */
+  public readonly logger: Logger;
+  protected logLevel: LogLevel;
+  protected tracing: boolean;
+  protected validateResponses?: 'strict' | 'warn';
+  /** Shared usage tracker, set when `usageTracker` is configured. */
+  public readonly usageTracker?: UsageTracker;
+  protected usageTags: string[] = [];
 
   constructor(options: BaseClientOptions) {
     this.apiKey = options.apiKey;
     this.baseUrl = (options.baseUrl || 'https://api.mielto.com/api/v1').replace(/\/$/, '');
     this.timeout = options.timeout || 30000;
-    this.maxRetries = options.maxRetries || 2;
-
-    this.client = axios.create({
-      baseURL: this.baseUrl,
-      timeout: this.timeout,
-      headers: this.getHeaders(),
-    });
+    this.maxRetries = options.maxRetries ?? 2;
+    this.transport = options.transport || new FetchTransport();
+    this.logLevel = options.logLevel || 'info';
+    this.logger = createLogger(options.logger, this.logLevel);
+    this.tracing = options.tracing ?? true;
+    this.validateResponses = options.validateResponses;
+    if (options.rateLimit || options.maxConcurrency) {
+      this.limiter = new RequestLimiter({
+        rateLimit: options.rateLimit,
+        maxConcurrency: options.maxConcurrency,
+      });
+    }
+    if (options.circuitBreaker) {
+      this.circuitBreaker = new CircuitBreaker(
+        options.circuitBreaker === true ? {} : options.circuitBreaker
+      );
+    }
+    if (options.usageTracker instanceof UsageTracker) {
+      this.usageTracker = options.usageTracker;
+    } else if (options.usageTracker) {
+      this.usageTracker = new UsageTracker(options.usageTracker === true ? {} : options.usageTracker);
+    }
   }
 
-  protected getHeaders(): Record<string, string> {
+  protected getHeaders(apiKey: string): Record<string, string> {
     return {
-      Authorization: `Bearer ${this.apiKey}`,
+      Authorization: `Bearer ${apiKey}`,
       'Content-Type': 'application/json',
       Accept: 'application/json',
+      ...this.defaultHeaders,
     };
   }
 
-  protected buildUrl(endpoint: string): string {
-    const cleanEndpoint = endpoint.startsWith('/') ? endpoint.slice(1) : endpoint;
-    return `${this.baseUrl}/${cleanEndpoint}`;
+  /**
+   * Derive a client that shares this client's transport and middleware,
+   * with its own defaults, headers and timeout. Middleware added later with
+   * `use()` on either client runs for both.
+   *
+   * @param options - Scoped defaults and overrides
+   * @returns A new client; this client is left unchanged
+   */
+  withOptions(options: ClientScopeOptions): this {
+    const child: this = Object.assign(Object.create(Object.getPrototypeOf(this)), this);
+    child.defaults = {
+      userId: options.userId ?? this.defaults.userId,
+      workspaceId: options.workspaceId ?? this.defaults.workspaceId,
+      collectionIds: options.collectionIds ?? this.defaults.collectionIds,
+    };
+    child.defaultHeaders = { ...this.defaultHeaders, ...options.headers };
+    child.timeout = options.timeout ?? this.timeout;
+    child.maxRetries = options.maxRetries ?? this.maxRetries;
+    child.usageTags = [...this.usageTags, ...(options.usageTags || [])];
+    return child;
+  }
+
+  /**
+   * Resolve the API key, calling the provider if one was configured.
+   */
+  protected async resolveApiKey(): Promise<string> {
+    if (typeof this.apiKey !== 'function') {
+      return this.apiKey;
+    }
+    let apiKey: string;
+    try {
+      apiKey = await this.apiKey();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new AuthenticationError(`Failed to resolve API key: ${message}`);
+    }
+    if (!apiKey) {
+      throw new AuthenticationError('API key provider returned an empty key');
+    }
+    return apiKey;
   }
 
-  protected handleResponseError(error: AxiosError): never {
-    const response = error.response;
-    const statusCode = response?.status;
-    
-    let message = error.message;
-    let errorData: ErrorResponse | undefined;
+  protected buildUrl(endpoint: string, params?: Record<string, any>): string {
+    const cleanEndpoint = endpoint.startsWith('/') ? endpoint.slice(1) : endpoint;
+    const url = `${this.baseUrl}/${cleanEndpoint}`;
 
-    if (response) {
-      try {
-        errorData = response.data as ErrorResponse;
-        message = errorData.detail || errorData.message || response.statusText || message;
-      } catch {
-        message = response.statusText || message;
+    const query = new URLSearchParams();
+    for (const [key, value] of Object.entries(params || {})) {
+      if (value === undefined || value === null) continue;
+      if (Array.isArray(value)) {
+        value.forEach(item => query.append(key, String(item)));
+      } else {
+        query.append(key, String(value));
       }
+    }
+    const queryString = query.toString();
+    if (!queryString) {
+      return url;
+    }
+    return `${url}${url.includes('?') ? '&' : '?'}${queryString}`;
+  }
 
-      const errorCode = errorData?.error_code;
+  protected handleResponseError(response: TransportResponse): never {
+    throw this.createResponseError(response);
+  }
 
-      // Check for specific error codes first
-      if (errorCode === 'CREDIT_LIMIT_EXCEEDED') {
-        throw new CreditLimitExceededError(message, statusCode, errorData);
-      } else if (errorCode === 'OVERAGE_LIMIT_EXCEEDED') {
-        throw new OverageLimitExceededError(message, statusCode, errorData);
-      }
+  /**
+   * Map an error response to the matching MieltoError subclass.
+   * Also used for errors sent inside a stream.
+   */
+  createResponseError(response: TransportResponse): MieltoError {
+    const statusCode = response.status;
+    const errorData: ErrorResponse | undefined =
+      response.data && typeof response.data === 'object' ? response.data : undefined;
 
-      // Handle HTTP status codes
-      if (statusCode === 401) {
-        throw new AuthenticationError(message, statusCode, errorData);
-      } else if (statusCode === 402) {
-        throw new PaymentRequiredError(message, statusCode, errorData);
-      } else if (statusCode === 403) {
-        throw new PermissionError(message, statusCode, errorData);
-      } else if (statusCode === 404) {
-        throw new NotFoundError(message, statusCode, errorData);
-      } else if (statusCode === 422) {
-        throw new ValidationError(message, statusCode, errorData);
-      } else if (statusCode === 429) {
-        throw new RateLimitError(message, statusCode, errorData);
-      } else if (statusCode && statusCode >= 500) {
-        throw new ServerError(message, statusCode, errorData);
-      }
+    let message = errorData?.detail || errorData?.message ||
+      (typeof response.data === 'string' && response.data) ||
+      response.statusText ||
+      `Request failed with status code ${statusCode}`;
+    if (typeof message !== 'string') {
+      // FastAPI validation errors carry a list of issues in `detail`
+      message = JSON.stringify(message);
     }
 
-    // Handle network/timeout errors
-    if (error.code === 'ECONNABORTED' || error.message.includes('timeout')) {
-      throw new TimeoutError(`Request timed out: ${message}`, statusCode);
+    const metadata: ErrorMetadata = {
+      requestId: getRequestId(response.headers) || errorData?.request_id,
+      headers: response.headers,
+      retryAfterMs: getRetryAfterMs(response.headers, response.status === 429),
+    };
+    const errorCode = errorData?.error_code;
+
+    // Check for specific error codes first
+    if (errorCode === 'CREDIT_LIMIT_EXCEEDED') {
+      return new CreditLimitExceededError(message, statusCode, errorData, metadata);
+    } else if (errorCode === 'OVERAGE_LIMIT_EXCEEDED') {
+      return new OverageLimitExceededError(message, statusCode, errorData, metadata);
     }
 
-    if (error.code === 'ECONNREFUSED' || error.code === 'ENOTFOUND' || error.code === 'ECONNRESET') {
-      throw new ConnectionError(`Connection error: ${message}`, statusCode);
+    // Handle HTTP status codes
+    if (statusCode === 401) {
+      return new AuthenticationError(message, statusCode, errorData, metadata);
+    } else if (statusCode === 402) {
+      return new PaymentRequiredError(message, statusCode, errorData, metadata);
+    } else if (statusCode === 403) {
+      return new PermissionError(message, statusCode, errorData, metadata);
+    } else if (statusCode === 404) {
+      return new NotFoundError(message, statusCode, errorData, metadata);
+    } else if (statusCode === 422) {
+      return new ValidationError(message, statusCode, errorData, metadata);
+    } else if (statusCode === 429) {
+      return new RateLimitError(message, statusCode, errorData, metadata);
+    } else if (statusCode >= 500) {
+      return new ServerError(message, statusCode, errorData, metadata);
     }
 
-    throw new MieltoError(message, statusCode, errorData);
+    return new MieltoError(message, statusCode, errorData, metadata);
   }
 
-  async request<T = any>(
+  /**
+   * Register a middleware. Hooks run for every subsequent request.
+   *
+   * @param middleware - Middleware with `onRequest`, `onResponse` and/or `onError` hooks
+   * @returns This client, for chaining
+   */
+  use(middleware: Middleware): this {
+    this.middleware.push(middleware);
+    return this;
+  }
+
+  protected buildRequest(
     method: string,
     endpoint: string,
-    config?: AxiosRequestConfig
-  ): Promise<T> {
-    try {
-      const response = await this.client.request<T>({
-        method: method as any,
-        url: endpoint,
-        ...config,
+    config: RequestConfig,
+    options: RequestOptions,
+    apiKey: string,
+    stream: boolean = false
+  ): TransportRequest {
+    return {
+      method: method.toUpperCase(),
+      url: this.buildUrl(endpoint, config.params),
+      headers: {
+        ...this.getHeaders(apiKey),
+        ...(stream ? { Accept: 'text/event-stream' } : {}),
+        ...config.headers,
+        ...options.headers,
+      },
+      body: config.data !== undefined ? JSON.stringify(config.data) : undefined,
+      timeout: options.timeout ?? this.timeout,
+      stream,
+      signal: options.signal,
+    };
+  }
+
+  /**
+   * Send a single attempt through the middleware and the transport.
+   * Rejects with a MieltoError for network failures only.
+   */
+  protected async send(context: MiddlewareContext): Promise<TransportResponse> {
+    for (const middleware of this.middleware) {
+      if (middleware.onRequest) {
+        context.request = (await middleware.onRequest(context)) || context.request;
+      }
+    }
+
+    const { method, url } = context.request;
+    if (this.logLevel === 'debug') {
+      this.logger.debug(`Mielto request: ${method} ${url}`, {
+        attempt: context.attempt,
+        headers: redactHeaders(context.request.headers),
+        body: context.request.body !== undefined ? redactBody(parseBody(context.request.body)) : undefined,
       });
-      return response.data;
+    }
+
+    let response: TransportResponse;
+    try {
+      response = await this.transport.request(context.request);
     } catch (error) {
-      if (axios.isAxiosError(error)) {
-        this.handleResponseError(error);
+      this.logger.debug(
+        `Mielto request failed: ${method} ${url} after ${Date.now() - context.startTime}ms`,
+        error instanceof Error ? error.message : error
+      );
+      if (error instanceof MieltoError) {
+        throw error;
+      }
+      if (context.request.signal?.aborted) {
+        throw new AbortError();
+      }
+      const message = error instanceof Error ? error.message : String(error);
+      throw new ConnectionError(`Connection error: ${message}`);
+    }
+    this.logger.debug(
+      `Mielto response: ${method} ${url} ${response.status} in ${Date.now() - context.startTime}ms`
+    );
+
+    for (const middleware of [...this.middleware].reverse()) {
+      if (middleware.onResponse) {
+        response = (await middleware.onResponse(response, context)) || response;
       }
-      throw error;
     }
+    return response;
   }
 
-  async get<T = any>(endpoint: string, params?: Record<string, any>, headers?: Record<string, string>): Promise<T> {
-    return this.request<T>('GET', endpoint, { params, headers });
+  /**
+   * Send a request, retrying network failures, rate limits and transient
+   * server errors with jittered exponential backoff.
+   *
+   * Server hints from `Retry-After` and rate-limit reset headers take
+   * precedence over the computed backoff.
+   */
+  protected async sendWithRetry(
+    method: string,
+    endpoint: string,
+    config: RequestConfig = {},
+    options: RequestOptions = {},
+    stream: boolean = false,
+    span: TraceSpan = NOOP_SPAN
+  ): Promise<TransportResponse> {
+    const maxRetries = options.maxRetries ?? this.maxRetries;
+    const family = getEndpointFamily(endpoint);
+    let apiKey = await this.resolveApiKey();
+    let credentialsRefreshed = false;
+
+    for (let attempt = 0; ; attempt++) {
+      if (options.signal?.aborted) {
+        throw new AbortError();
+      }
+
+      const context: MiddlewareContext = {
+        request: this.buildRequest(method, endpoint, config, options, apiKey, stream),
+        attempt,
+        startTime: Date.now(),
+        state: {},
+      };
+      span.inject(context.request.headers);
+      span.setAttributes({ 'mielto.retry_count': attempt });
+
+      // Streams hold their slot only until the response headers arrive
+      const release = this.limiter ? await this.limiter.acquire(options.signal) : undefined;
+
+      let error: MieltoError;
+      try {
+        // An open circuit fails fast without sending or retrying
+        this.circuitBreaker?.check(family);
+        let response: TransportResponse;
+        try {
+          response = await this.send(context);
+        } catch (sendError) {
+          if (sendError instanceof MieltoError) {
+            this.circuitBreaker?.record(family, sendError);
+          } else {
+            this.circuitBreaker?.cancel(family);
+          }
+          throw sendError;
+        }
+        this.limiter?.updateFromHeaders(response.headers, response.status);
+        if (response.status < 400) {
+          this.circuitBreaker?.record(family);
+          span.setAttributes({ 'http.response.status_code': response.status });
+          return response;
+        }
+        error = this.createResponseError(response);
+        this.circuitBreaker?.record(family, error);
+      } catch (networkError) {
+        if (!(networkError instanceof MieltoError) || networkError instanceof CircuitOpenError) {
+          throw networkError;
+        }
+        error = networkError;
+      } finally {
+        release?.();
+      }
+
+      // A hook that throws replaces the error and skips any remaining retries
+      for (const middleware of [...this.middleware].reverse()) {
+        await middleware.onError?.(error, context);
+      }
+
+      // Refresh dynamic credentials once, without spending a retry
+      if (error instanceof AuthenticationError && typeof this.apiKey === 'function' && !credentialsRefreshed) {
+        credentialsRefreshed = true;
+        const refreshedKey = await this.resolveApiKey();
+        if (refreshedKey !== apiKey) {
+          apiKey = refreshedKey;
+          attempt--;
+          continue;
+        }
+      }
+
+      if (attempt >= maxRetries || options.signal?.aborted || !shouldRetry(error, method, options.idempotent)) {
+        throw error;
+      }
+
+      const retryAfter = error.retryAfterMs;
+      if (retryAfter !== undefined && retryAfter > MAX_RETRY_AFTER_MS) {
+        throw error;
+      }
+
+      const delay = retryAfter ?? calculateRetryDelay(attempt + 1, INITIAL_RETRY_DELAY, MAX_RETRY_DELAY);
+      this.logger.debug(
+        `Mielto retry ${attempt + 1}/${maxRetries}: ${method} ${endpoint} in ${delay}ms after ${error.name}`
+      );
+      await sleep(delay, options.signal);
+    }
+  }
+
+  request<T = any>(
+    method: string,
+    endpoint: string,
+    config?: RequestConfig,
+    options?: RequestOptions
+  ): APIPromise<T> {
+    return APIPromise.from(async () => {
+      const span = await this.startSpan(method, endpoint);
+      try {
+        const response = await this.sendWithRetry(method, endpoint, config, options, false, span);
+        const operation = getOperationName(method, endpoint);
+        this.validateResponse(operation, response.data, response);
+        this.recordUsage(operation, response.data, config, options);
+        span.setAttributes(usageAttributes(response.data));
+        return this.toAPIResponse<T>(response, response.data);
+      } catch (error) {
+        span.recordError(error);
+        throw error;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
+  /**
+   * Send a request and return the unread response body, for server-sent events.
+   * The request's span stays open until the body has been read.
+   */
+  stream(
+    method: string,
+    endpoint: string,
+    config?: RequestConfig,
+    options?: RequestOptions
+  ): APIPromise<ReadableStream<Uint8Array>> {
+    return APIPromise.from(async () => {
+      const span = await this.startSpan(method, endpoint);
+      let response: TransportResponse;
+      try {
+        response = await this.sendWithRetry(method, endpoint, config, options, true, span);
+        if (!response.body) {
+          throw new MieltoError('Streaming response has no body', response.status, undefined, {
+            requestId: getRequestId(response.headers),
+            headers: response.headers,
+          });
+        }
+      } catch (error) {
+        span.recordError(error);
+        span.end();
+        throw error;
+      }
+      const body = span === NOOP_SPAN ? response.body : traceStream(response.body, span);
+      return this.toAPIResponse(response, body);
+    });
+  }
+
+  /**
+   * Check a response body against the schema registered for the operation,
+   * when `validateResponses` is enabled. Operations without a schema pass.
+   *
+   * @param operation - Operation name, e.g. `memories.search` or `chat.completions.chunk`
+   * @param data - Parsed response body
+   * @param response - Response the body came from, for error metadata
+   * @throws ResponseValidationError in `strict` mode when the body does not match
+   */
+  validateResponse(operation: string, data: unknown, response?: TransportResponse): void {
+    const schema = this.validateResponses && RESPONSE_SCHEMAS[operation];
+    if (!schema) {
+      return;
+    }
+    const issue = checkResponse(schema, data);
+    if (!issue) {
+      return;
+    }
+
+    const message = `Response from ${operation} failed validation at ${issue.path}: ${issue.message}`;
+    if (this.validateResponses === 'warn') {
+      this.logger.warn(message, issue.issues);
+      return;
+    }
+    throw new ResponseValidationError(message, issue.path, issue.issues, response?.status, undefined, {
+      requestId: response ? getRequestId(response.headers) : undefined,
+      headers: response?.headers,
+    });
+  }
+
+  /**
+   * Add the usage reported by a response to the usage tracker, if one is configured.
+   * The request's `user_id` and `workspace_id`, falling back to the client's
+   * defaults, and its usage tags decide where the usage is attributed.
+   *
+   * @param operation - Operation name, e.g. `chat.completions.create`
+   * @param data - Parsed response body or final stream chunk
+   * @param config - Query parameters and body of the request
+   * @param options - Per-call options carrying `usageTags`
+   */
+  recordUsage(operation: string, data: unknown, config: RequestConfig = {}, options: RequestOptions = {}): void {
+    if (!this.usageTracker) {
+      return;
+    }
+    const body = config.data && typeof config.data === 'object' ? config.data : {};
+    const params = config.params || {};
+    this.usageTracker.recordResponse(operation, data, {
+      userId: body.user_id ?? params.user_id ?? this.defaults.userId,
+      workspaceId: body.workspace_id ?? params.workspace_id ?? this.defaults.workspaceId,
+      tags: [...this.usageTags, ...(options.usageTags || [])],
+    });
   }
 
-  async post<T = any>(
+  /**
+   * Start the span for a resource operation, or a no-op span when tracing is disabled.
+   */
+  protected startSpan(method: string, endpoint: string): Promise<TraceSpan> {
+    if (!this.tracing) {
+      return Promise.resolve(NOOP_SPAN);
+    }
+    return startSpan(getOperationName(method, endpoint), {
+      'http.request.method': method,
+      'mielto.endpoint': `/${endpoint.replace(/^\/+/, '').split('?')[0]}`,
+      'server.address': this.baseUrl.replace(/^\w+:\/\//, '').split('/')[0],
+    });
+  }
+
+  protected toAPIResponse<T>(response: TransportResponse, data: T): APIResponse<T> {
+    return {
+      data,
+      status: response.status,
+      headers: response.headers,
+      requestId: getRequestId(response.headers),
+    };
+  }
+
+  get<T = any>(
+    endpoint: string,
+    params?: Record<string, any>,
+    headers?: Record<string, string>,
+    options?: RequestOptions
+  ): APIPromise<T> {
+    return this.request<T>('GET', endpoint, { params, headers }, options);
+  }
+
+  post<T = any>(
     endpoint: string,
     data?: any,
-    config?: AxiosRequestConfig
-  ): Promise<T> {
-    return this.request<T>('POST', endpoint, { ...config, data });
+    config?: RequestConfig,
+    options?: RequestOptions
+  ): APIPromise<T> {
+    return this.request<T>('POST', endpoint, { ...config, data }, options);
   }
 
-  async put<T = any>(endpoint: string, data?: any, config?: AxiosRequestConfig): Promise<T> {
-    return this.request<T>('PUT', endpoint, { ...config, data });
+  put<T = any>(
+    endpoint: string,
+    data?: any,
+    config?: RequestConfig,
+    options?: RequestOptions
+  ): APIPromise<T> {
+    return this.request<T>('PUT', endpoint, { ...config, data }, options);
   }
 
-  async delete<T = any>(endpoint: string, config?: AxiosRequestConfig): Promise<T> {
-    return this.request<T>('DELETE', endpoint, config);
+  delete<T = any>(endpoint: string, config?: RequestConfig, options?: RequestOptions): APIPromise<T> {
+    return this.request<T>('DELETE', endpoint, config, options);
   }
 
   close(): void {
-    // Axios doesn't have a close method, but we can clear interceptors if needed
+    // fetch keeps no connection state that needs releasing
   }
 }
-
@@ -0,0 +1,95 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CircuitBreaker, getEndpointFamily } from './circuit-breaker';
+import { FakeMieltoServer, fakeErrors } from '../testing';
+import { CircuitOpenError, NotFoundError, ServerError } from '../exceptions';
+
+const RESET_TIMEOUT = 100;
+
+function setup() {
+  const server = new FakeMieltoServer();
+  const client = server.createClient({ circuitBreaker: { failureThreshold: 2, resetTimeout: RESET_TIMEOUT } });
+  const list = () => client.memories.list({ user_id: 'user_123' });
+  const state = () => client.circuitBreaker!.getState('memories');
+  return { server, client, list, state };
+}
+
+const waitForReset = () => new Promise(resolve => setTimeout(resolve, RESET_TIMEOUT + 20));
+
+describe('CircuitBreaker', () => {
+  it('opens after consecutive failures and fails fast without sending', async () => {
+    const { server, list, state } = setup();
+    server.injectError({ ...fakeErrors.serverError(503), times: 2 });
+
+    await assert.rejects(list(), ServerError);
+    assert.equal(state(), 'closed');
+    await assert.rejects(list(), ServerError);
+    assert.equal(state(), 'open');
+
+    await assert.rejects(list(), (error: unknown) => {
+      assert.ok(error instanceof CircuitOpenError);
+      assert.ok(error.retryAfterMs! <= RESET_TIMEOUT);
+      return true;
+    });
+    assert.equal(server.requests.length, 2);
+  });
+
+  it('goes open → half_open → closed when the probe succeeds', async () => {
+    const { server, list, state } = setup();
+    server.injectError({ ...fakeErrors.serverError(503), times: 2 });
+    await assert.rejects(list(), ServerError);
+    await assert.rejects(list(), ServerError);
+    assert.equal(state(), 'open');
+
+    await waitForReset();
+    assert.equal(state(), 'half_open');
+    await list();
+    assert.equal(state(), 'closed');
+    assert.equal(server.requests.length, 3);
+  });
+
+  it('reopens when the half-open probe fails', async () => {
+    const { server, list, state } = setup();
+    server.injectError({ ...fakeErrors.serverError(503), times: 3 });
+    await assert.rejects(list(), ServerError);
+    await assert.rejects(list(), ServerError);
+
+    await waitForReset();
+    assert.equal(state(), 'half_open');
+    await assert.rejects(list(), ServerError);
+    assert.equal(state(), 'open');
+    await assert.rejects(list(), CircuitOpenError);
+  });
+
+  it('tracks endpoint families separately and ignores client errors', async () => {
+    const { server, client, list, state } = setup();
+    server.injectError({ ...fakeErrors.serverError(503), times: 2 });
+    await assert.rejects(list(), ServerError);
+    await assert.rejects(list(), ServerError);
+
+    await client.collections.list();
+    assert.equal(client.circuitBreaker!.getState('collections'), 'closed');
+
+    await waitForReset();
+    await assert.rejects(client.memories.get('missing'), NotFoundError);
+    assert.equal(state(), 'closed');
+  });
+
+  it('lets only halfOpenMaxProbes requests through while half-open', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeout: 0, halfOpenMaxProbes: 1 });
+    breaker.recordFailure('chat');
+    breaker.check('chat');
+    assert.throws(() => breaker.check('chat'), CircuitOpenError);
+
+    // A cancelled probe frees its slot
+    breaker.cancel('chat');
+    breaker.check('chat');
+  });
+
+  it('maps endpoints to families', () => {
+    assert.equal(getEndpointFamily('/memories/search'), 'memories');
+    assert.equal(getEndpointFamily('chat/completions'), 'chat');
+    assert.equal(getEndpointFamily('/upload'), 'collections');
+    assert.equal(getEndpointFamily('/chunks?limit=5'), 'collections');
+  });
+});
@@ -0,0 +1,160 @@
+/** Circuit breaker that fails fast while an endpoint family is unhealthy. */
+
+import {
+  MieltoError,
+  CircuitOpenError,
+  ServerError,
+  TimeoutError,
+  ConnectionError,
+  AbortError,
+} from '../exceptions';
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerOptions {
+  /** Consecutive failures that open the circuit. Defaults to 5. */
+  failureThreshold?: number;
+  /** Time the circuit stays open before probing, in milliseconds. Defaults to 30000. */
+  resetTimeout?: number;
+  /** Probe requests allowed while half-open. Defaults to 1. */
+  halfOpenMaxProbes?: number;
+}
+
+interface Circuit {
+  state: CircuitState;
+  failures: number;
+  openedAt: number;
+  probes: number;
+}
+
+/**
+ * Map an API endpoint to the family its circuit is tracked under.
+ *
+ * @param endpoint - Endpoint path, e.g. `/memories/search` or `/upload`
+ * @returns `memories`, `collections`, `chat`, `compress`, or the first path segment
+ */
+export function getEndpointFamily(endpoint: string): string {
+  const segment = endpoint.replace(/^\/+/, '').split(/[/?]/)[0];
+  if (segment === 'upload' || segment === 'chunks') {
+    return 'collections';
+  }
+  return segment;
+}
+
+/**
+ * Tracks consecutive failures per endpoint family.
+ *
+ * After `failureThreshold` failures the circuit opens and requests fail
+ * immediately with a `CircuitOpenError`. Once `resetTimeout` has passed, up to
+ * `halfOpenMaxProbes` requests are let through; a success closes the circuit
+ * and a failure opens it again.
+ */
+export class CircuitBreaker {
+  private failureThreshold: number;
+  private resetTimeout: number;
+  private halfOpenMaxProbes: number;
+  private circuits = new Map<string, Circuit>();
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    this.failureThreshold = options.failureThreshold ?? 5;
+    this.resetTimeout = options.resetTimeout ?? 30000;
+    this.halfOpenMaxProbes = options.halfOpenMaxProbes ?? 1;
+  }
+
+  /**
+   * Only server errors and network failures count against a circuit.
+   */
+  static isFailure(error: unknown): boolean {
+    return error instanceof ServerError || error instanceof TimeoutError || error instanceof ConnectionError;
+  }
+
+  /**
+   * Throw a CircuitOpenError if a request to the family must not be sent now.
+   */
+  check(family: string): void {
+    const circuit = this.circuits.get(family);
+    if (!circuit || circuit.state === 'closed') {
+      return;
+    }
+
+    const resetAt = circuit.openedAt + this.resetTimeout;
+    if (circuit.state === 'open' && Date.now() >= resetAt) {
+      circuit.state = 'half_open';
+      circuit.probes = 0;
+    }
+
+    if (circuit.state === 'half_open' && circuit.probes < this.halfOpenMaxProbes) {
+      circuit.probes += 1;
+      return;
+    }
+
+    const now = Date.now();
+    throw new CircuitOpenError(
+      `Circuit for '${family}' is open after repeated failures; failing fast`,
+      family,
+      Math.max(resetAt, now),
+      { retryAfterMs: Math.max(0, resetAt - now) }
+    );
+  }
+
+  recordSuccess(family: string): void {
+    this.circuits.delete(family);
+  }
+
+  recordFailure(family: string): void {
+    const circuit = this.circuits.get(family) || { state: 'closed', failures: 0, openedAt: 0, probes: 0 };
+    circuit.failures += 1;
+    if (circuit.state === 'half_open' || circuit.failures >= this.failureThreshold) {
+      circuit.state = 'open';
+      circuit.openedAt = Date.now();
+      circuit.probes = 0;
+    }
+    this.circuits.set(family, circuit);
+  }
+
+  /**
+   * Record the outcome of an attempt. Errors that say nothing about the
+   * endpoint's health, such as 4xx responses, count as successes.
+   */
+  record(family: string, error?: MieltoError): void {
+    if (error instanceof AbortError) {
+      this.cancel(family);
+      return;
+    }
+    if (error && CircuitBreaker.isFailure(error)) {
+      this.recordFailure(family);
+    } else {
+      this.recordSuccess(family);
+    }
+  }
+
+  /**
+   * Free a probe slot taken by `check` for a request that ended without an
+   * outcome, e.g. because it was cancelled.
+   */
+  cancel(family: string): void {
+    const circuit = this.circuits.get(family);
+    if (circuit?.state === 'half_open' && circuit.probes > 0) {
+      circuit.probes -= 1;
+    }
+  }
+
+  getState(family: string): CircuitState {
+    const circuit = this.circuits.get(family);
+    if (!circuit) {
+      return 'closed';
+    }
+    if (circuit.state === 'open' && Date.now() >= circuit.openedAt + this.resetTimeout) {
+      return 'half_open';
+    }
+    return circuit.state;
+  }
+
+  reset(family?: string): void {
+    if (family) {
+      this.circuits.delete(family);
+    } else {
+      this.circuits.clear();
+    }
+  }
+}
@@ -1,7 +1,36 @@
 /** Client classes for Mielto API. */
 
 export { BaseClient } from './base';
-export type { BaseClientOptions } from './base';
+export type {
+  BaseClientOptions,
+  RequestOptions,
+  RequestConfig,
+  ClientDefaults,
+  ClientScopeOptions,
+  ApiKeyProvider,
+} from './base';
+export { FetchTransport } from './transport';
+export type { Transport, TransportRequest, TransportResponse, FetchTransportOptions } from './transport';
+export type { Middleware, MiddlewareContext } from './middleware';
+export { APIPromise } from './api-promise';
+export type { APIResponse, APIResponseMetadata } from './api-promise';
+export { RequestLimiter } from './limiter';
+export type { RateLimitOptions, LimiterOptions, LimiterState } from './limiter';
+export { CircuitBreaker, getEndpointFamily } from './circuit-breaker';
+export type { CircuitBreakerOptions, CircuitState } from './circuit-breaker';
+export { createLogger, redactHeaders, redactBody } from './logger';
+export type { Logger, LogLevel } from './logger';
+export { SSEDecoder, LineDecoder, readServerSentEvents } from './sse';
+export type { ServerSentEvent } from './sse';
+export { UsageTracker } from './usage';
+export type {
+  UsageTrackerOptions,
+  ModelPricing,
+  UsageEvent,
+  UsageTotals,
+  UsageSnapshot,
+  UsageAttribution,
+} from './usage';
 export { Mielto } from './mielto';
 export type { MieltoOptions } from './mielto';
 
@@ -0,0 +1,125 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { RequestLimiter } from './limiter';
+import { Mielto } from './mielto';
+import { Transport } from './transport';
+import { FakeMieltoServer, fakeErrors } from '../testing';
+import { AbortError, RateLimitError } from '../exceptions';
+
+/** Wraps a FakeMieltoServer to hold requests until `release()` and record when each arrived. */
+function gatedTransport(server: FakeMieltoServer) {
+  const waiting: Array<() => void> = [];
+  const arrivals: number[] = [];
+  let inFlight = 0;
+  let maxInFlight = 0;
+  let gated = true;
+
+  const transport: Transport = {
+    async request(request) {
+      arrivals.push(Date.now());
+      inFlight += 1;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      if (gated) {
+        await new Promise<void>(resolve => waiting.push(resolve));
+      }
+      inFlight -= 1;
+      return server.request(request);
+    },
+  };
+
+  return {
+    transport,
+    arrivals,
+    get waiting() {
+      return waiting.length;
+    },
+    get maxInFlight() {
+      return maxInFlight;
+    },
+    release() {
+      gated = false;
+      waiting.splice(0).forEach(resolve => resolve());
+    },
+  };
+}
+
+async function waitFor(condition: () => boolean): Promise<void> {
+  for (let waited = 0; !condition(); waited += 10) {
+    assert.ok(waited < 2000, 'condition not met within 2s');
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+}
+
+describe('RequestLimiter', () => {
+  it('caps requests in flight at maxConcurrency and queues the rest', async () => {
+    const gate = gatedTransport(new FakeMieltoServer());
+    const client = new Mielto({ apiKey: 'test', transport: gate.transport, maxRetries: 0, maxConcurrency: 2 });
+
+    const requests = Array.from({ length: 5 }, () => client.memories.list({ user_id: 'user_123' }));
+    await waitFor(() => gate.waiting === 2);
+    // Give queued requests a chance to slip past the limit
+    await new Promise(resolve => setTimeout(resolve, 50));
+    assert.equal(gate.waiting, 2);
+    assert.deepEqual(
+      { inFlight: client.limiter!.getState().inFlight, queued: client.limiter!.getState().queued },
+      { inFlight: 2, queued: 3 }
+    );
+
+    gate.release();
+    await Promise.all(requests);
+    assert.equal(gate.maxInFlight, 2);
+    assert.equal(client.limiter!.getState().inFlight, 0);
+  });
+
+  it('sends a burst, then spaces requests at requestsPerSecond', async () => {
+    const gate = gatedTransport(new FakeMieltoServer());
+    gate.release();
+    const client = new Mielto({
+      apiKey: 'test',
+      transport: gate.transport,
+      maxRetries: 0,
+      rateLimit: { requestsPerSecond: 10, burst: 2 },
+    });
+
+    await Promise.all(Array.from({ length: 4 }, () => client.memories.list({ user_id: 'user_123' })));
+    const offsets = gate.arrivals.map(arrival => arrival - gate.arrivals[0]);
+
+    assert.ok(offsets[1] < 50);
+    // Two more tokens refill at 100ms each
+    assert.ok(offsets[2] >= 90, `third request after ${offsets[2]}ms`);
+    assert.ok(offsets[3] >= 190, `fourth request after ${offsets[3]}ms`);
+  });
+
+  it('pauses new requests until the reset after a 429', async () => {
+    const server = new FakeMieltoServer();
+    const client = server.createClient({ maxConcurrency: 4 });
+    server.injectError(fakeErrors.rateLimited(1));
+
+    await assert.rejects(client.memories.list({ user_id: 'user_123' }), RateLimitError);
+    assert.ok(client.limiter!.getState().pausedUntil! > Date.now());
+
+    const started = Date.now();
+    await client.memories.list({ user_id: 'user_123' });
+    assert.ok(Date.now() - started >= 900);
+  });
+
+  it('caps tokens at x-ratelimit-remaining', () => {
+    const limiter = new RequestLimiter({ rateLimit: { requestsPerSecond: 10 } });
+    limiter.updateFromHeaders({ 'x-ratelimit-remaining': '3' }, 200);
+    assert.ok(limiter.getState().availableTokens < 4);
+  });
+
+  it('removes an aborted request from the queue', async () => {
+    const limiter = new RequestLimiter({ maxConcurrency: 1 });
+    const release = await limiter.acquire();
+    const controller = new AbortController();
+    const queued = limiter.acquire(controller.signal);
+    assert.equal(limiter.getState().queued, 1);
+
+    controller.abort();
+    await assert.rejects(queued, AbortError);
+    assert.equal(limiter.getState().queued, 0);
+    release();
+    assert.equal(limiter.getState().inFlight, 0);
+  });
+});
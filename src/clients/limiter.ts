@@ -0,0 +1,218 @@
+/** Client-side rate and concurrency limiting for Mielto requests. */
+
+import { AbortError } from '../exceptions';
+import { getRetryAfterMs } from './retry';
+
+export interface RateLimitOptions {
+  /** Sustained number of requests per second. */
+  requestsPerSecond: number;
+  /** Number of requests that may be sent in a burst. Defaults to `requestsPerSecond`. */
+  burst?: number;
+}
+
+export interface LimiterOptions {
+  /** Token-bucket rate limit applied to every request attempt. */
+  rateLimit?: RateLimitOptions;
+  /** Maximum number of requests in flight at once. */
+  maxConcurrency?: number;
+}
+
+export interface LimiterState {
+  /** Tokens currently available; `Infinity` without a rate limit. */
+  availableTokens: number;
+  /** Requests currently in flight. */
+  inFlight: number;
+  /** Requests waiting for a slot. */
+  queued: number;
+  /** Epoch milliseconds until which the server asked us to pause. */
+  pausedUntil?: number;
+}
+
+interface Waiter {
+  resolve: (release: () => void) => void;
+  reject: (error: Error) => void;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+}
+
+/**
+ * Combined token bucket and max-in-flight limiter.
+ *
+ * Requests are granted in FIFO order. The limiter also pauses when the server
+ * reports an exhausted rate limit through response headers.
+ */
+export class RequestLimiter {
+  private rate?: RateLimitOptions;
+  private maxConcurrency: number;
+  private tokens: number;
+  private lastRefill: number;
+  private inFlight = 0;
+  private pausedUntil?: number;
+  private queue: Waiter[] = [];
+  private timer?: ReturnType<typeof setTimeout>;
+  private listeners = new Set<(state: LimiterState) => void>();
+
+  constructor(options: LimiterOptions = {}) {
+    this.rate = options.rateLimit;
+    this.maxConcurrency = options.maxConcurrency ?? Infinity;
+    this.tokens = this.capacity;
+    this.lastRefill = Date.now();
+  }
+
+  private get capacity(): number {
+    if (!this.rate) {
+      return Infinity;
+    }
+    return this.rate.burst ?? this.rate.requestsPerSecond;
+  }
+
+  /**
+   * Wait for a slot. Resolves with a function that must be called once the request finishes.
+   *
+   * @param signal - Rejects with an AbortError and leaves the queue when aborted
+   */
+  acquire(signal?: AbortSignal): Promise<() => void> {
+    if (signal?.aborted) {
+      return Promise.reject(new AbortError());
+    }
+
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = { resolve, reject, signal };
+      if (signal) {
+        waiter.onAbort = () => {
+          this.queue = this.queue.filter(w => w !== waiter);
+          reject(new AbortError());
+          this.emit();
+        };
+        signal.addEventListener('abort', waiter.onAbort, { once: true });
+      }
+      this.queue.push(waiter);
+      this.drain();
+    });
+  }
+
+  /**
+   * Adjust to the server's view of the rate limit.
+   *
+   * With a rate limit, tokens are capped at `x-ratelimit-remaining`. When the
+   * server reports no remaining requests or responds with 429, new requests
+   * wait until the reset.
+   */
+  updateFromHeaders(headers: Record<string, string>, status?: number): void {
+    const remaining = parseInt(headers['x-ratelimit-remaining'] ?? headers['ratelimit-remaining'], 10);
+    if (!isNaN(remaining) && this.rate) {
+      this.refill();
+      this.tokens = Math.min(this.tokens, remaining);
+    }
+
+    if (status === 429 || remaining === 0) {
+      const waitMs = getRetryAfterMs(headers, true);
+      if (waitMs !== undefined && waitMs > 0) {
+        this.pausedUntil = Math.max(this.pausedUntil ?? 0, Date.now() + waitMs);
+      }
+    }
+    this.drain();
+  }
+
+  /**
+   * Change the limits at runtime.
+   */
+  setLimits(options: LimiterOptions): void {
+    this.refill();
+    if ('rateLimit' in options) {
+      this.rate = options.rateLimit;
+      this.tokens = Math.min(this.tokens, this.capacity);
+      if (!this.rate) {
+        this.tokens = Infinity;
+      }
+    }
+    if ('maxConcurrency' in options) {
+      this.maxConcurrency = options.maxConcurrency ?? Infinity;
+    }
+    this.drain();
+  }
+
+  getState(): LimiterState {
+    this.refill();
+    return {
+      availableTokens: this.tokens,
+      inFlight: this.inFlight,
+      queued: this.queue.length,
+      pausedUntil: this.pausedUntil && this.pausedUntil > Date.now() ? this.pausedUntil : undefined,
+    };
+  }
+
+  /**
+   * Subscribe to state changes, e.g. to export queue depth as a metric.
+   *
+   * @returns A function that removes the listener
+   */
+  onStateChange(listener: (state: LimiterState) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    if (this.rate) {
+      const elapsed = (now - this.lastRefill) / 1000;
+      this.tokens = Math.min(this.capacity, this.tokens + elapsed * this.rate.requestsPerSecond);
+    }
+    this.lastRefill = now;
+  }
+
+  private drain(): void {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    this.refill();
+
+    while (this.queue.length > 0) {
+      const now = Date.now();
+      if (this.pausedUntil && this.pausedUntil > now) {
+        this.schedule(this.pausedUntil - now);
+        break;
+      }
+      if (this.inFlight >= this.maxConcurrency) {
+        // A release will drain again
+        break;
+      }
+      if (this.tokens < 1) {
+        this.schedule(((1 - this.tokens) / this.rate!.requestsPerSecond) * 1000);
+        break;
+      }
+
+      const waiter = this.queue.shift()!;
+      if (waiter.onAbort) {
+        waiter.signal?.removeEventListener('abort', waiter.onAbort);
+      }
+      this.tokens -= 1;
+      this.inFlight += 1;
+      waiter.resolve(this.createRelease());
+    }
+    this.emit();
+  }
+
+  private createRelease(): () => void {
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      this.inFlight -= 1;
+      this.drain();
+    };
+  }
+
+  private schedule(delay: number): void {
+    this.timer = setTimeout(() => this.drain(), Math.max(0, Math.ceil(delay)));
+  }
+
+  private emit(): void {
+    if (this.listeners.size === 0) return;
+    const state = this.getState();
+    for (const listener of this.listeners) {
+      listener(state);
+    }
+  }
+}
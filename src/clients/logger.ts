@@ -0,0 +1,86 @@
+/** Leveled logging with secret redaction for the Mielto clients. */
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'off';
+
+/** Minimal logger interface; `console` and most logging libraries satisfy it. */
+export interface Logger {
+  debug(message: string, ...args: unknown[]): void;
+  info(message: string, ...args: unknown[]): void;
+  warn(message: string, ...args: unknown[]): void;
+  error(message: string, ...args: unknown[]): void;
+}
+
+const LEVEL_PRIORITY: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+  off: 50,
+};
+
+/** Request body keys whose string values hold base64 file content. */
+const BASE64_KEYS = ['file', 'file_base64'];
+
+/**
+ * Parse a log level, e.g. from the `MIELTO_LOG` environment variable.
+ *
+ * @returns The level, or undefined if the value is not a known level
+ */
+export function parseLogLevel(value?: string): LogLevel | undefined {
+  const level = value?.toLowerCase();
+  return level && level in LEVEL_PRIORITY ? (level as LogLevel) : undefined;
+}
+
+/**
+ * Wrap a logger so that messages below `level` are dropped.
+ *
+ * @param logger - Destination logger. Defaults to `console`
+ * @param level - Minimum level to emit. Defaults to `info`
+ */
+export function createLogger(logger: Logger = console, level: LogLevel = 'info'): Logger {
+  const enabled = (messageLevel: LogLevel) => LEVEL_PRIORITY[messageLevel] >= LEVEL_PRIORITY[level];
+  return {
+    debug: (message, ...args) => enabled('debug') && logger.debug(message, ...args),
+    info: (message, ...args) => enabled('info') && logger.info(message, ...args),
+    warn: (message, ...args) => enabled('warn') && logger.warn(message, ...args),
+    error: (message, ...args) => enabled('error') && logger.error(message, ...args),
+  };
+}
+
+/**
+ * Copy headers with credentials masked.
+ */
+export function redactHeaders(headers: Record<string, string>): Record<string, string> {
+  const redacted: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    const lower = name.toLowerCase();
+    if (lower === 'authorization') {
+      redacted[name] = value.replace(/^(Bearer\s+).*$/i, '$1[REDACTED]');
+    } else if (lower === 'x-api-key' || lower === 'cookie') {
+      redacted[name] = '[REDACTED]';
+    } else {
+      redacted[name] = value;
+    }
+  }
+  return redacted;
+}
+
+/**
+ * Copy a request body with base64 file payloads replaced by their size,
+ * e.g. the `file` of every `FileUpload`.
+ */
+export function redactBody(body: unknown): unknown {
+  if (Array.isArray(body)) {
+    return body.map(redactBody);
+  }
+  if (body && typeof body === 'object') {
+    const redacted: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(body)) {
+      redacted[key] = BASE64_KEYS.includes(key) && typeof value === 'string'
+        ? `[base64, ${value.length} chars]`
+        : redactBody(value);
+    }
+    return redacted;
+  }
+  return body;
+}
@@ -0,0 +1,35 @@
+/** Request/response middleware for the Mielto client. */
+
+import { MieltoError } from '../exceptions';
+import { TransportRequest, TransportResponse } from './transport';
+
+export interface MiddlewareContext {
+  /** Request about to be sent. Hooks may mutate it or return a replacement. */
+  request: TransportRequest;
+  /** Zero-based attempt number, incremented on every retry. */
+  attempt: number;
+  /** Time the attempt started, in milliseconds since the epoch. */
+  startTime: number;
+  /** Scratch space shared by the hooks of a single attempt. */
+  state: Record<string, any>;
+}
+
+/**
+ * Hooks run around every HTTP attempt, including retries and streaming requests.
+ *
+ * `onRequest` hooks run in the order the middleware was registered;
+ * `onResponse` and `onError` hooks run in reverse order.
+ */
+export interface Middleware {
+  /** Inspect or rewrite the outgoing request. */
+  onRequest?(
+    context: MiddlewareContext
+  ): TransportRequest | void | Promise<TransportRequest | void>;
+  /** Inspect or replace a response, for any HTTP status. */
+  onResponse?(
+    response: TransportResponse,
+    context: MiddlewareContext
+  ): TransportResponse | void | Promise<TransportResponse | void>;
+  /** Observe a failed attempt. Throwing replaces the error. */
+  onError?(error: MieltoError, context: MiddlewareContext): void | Promise<void>;
+}
@@ -1,16 +1,69 @@
 /** Main Mielto client class. */
 
-import { BaseClient } from './base';
+import { BaseClient, ClientScopeOptions, ApiKeyProvider } from './base';
+import { Transport } from './transport';
+import { Middleware } from './middleware';
+import { RequestLimiter, RateLimitOptions } from './limiter';
+import { CircuitBreaker, CircuitBreakerOptions } from './circuit-breaker';
+import { Logger, LogLevel, parseLogLevel } from './logger';
+import { UsageTracker, UsageTrackerOptions } from './usage';
 import { Chat } from '../resources/chat';
 import { Memories } from '../resources/memories';
 import { Collections } from '../resources/collections';
 import { Compress } from '../resources/compress';
+import { AuthenticationError } from '../exceptions';
+import { readEnv, readEnvInt } from '../utils';
 
 export interface MieltoOptions {
-  apiKey: string;
+  /**
+   * API key, or a function returning one for rotating or short-lived keys.
+   * Defaults to the `MIELTO_API_KEY` environment variable.
+   */
+  apiKey?: string | ApiKeyProvider;
+  /** API base URL. Defaults to `MIELTO_BASE_URL`, then the hosted API. */
   baseUrl?: string;
+  /** Request timeout in milliseconds. Defaults to `MIELTO_TIMEOUT`, then 30000. */
   timeout?: number;
+  /** Retries per request. Defaults to `MIELTO_MAX_RETRIES`, then 2. */
   maxRetries?: number;
+  /** HTTP transport. Defaults to a `fetch`-based transport. */
+  transport?: Transport;
+  /** Client-side token-bucket rate limit shared by all resources. */
+  rateLimit?: RateLimitOptions;
+  /** Maximum number of requests in flight at once, shared by all resources. */
+  maxConcurrency?: number;
+  /**
+   * Open a circuit per endpoint family (memories, collections, chat, compress)
+   * after repeated server or network failures, failing fast with a
+   * `CircuitOpenError` until a probe request succeeds. Disabled by default.
+   */
+  circuitBreaker?: boolean | CircuitBreakerOptions;
+  /** Destination for SDK logs, such as upload progress. Defaults to `console`. */
+  logger?: Logger;
+  /**
+   * Minimum level to log. `debug` logs method, URL, status, latency and retries
+   * of every request with credentials redacted. Defaults to `MIELTO_LOG`, then `info`.
+   */
+  logLevel?: LogLevel;
+  /**
+   * Create an OpenTelemetry span per resource operation and propagate W3C
+   * trace context. A no-op unless `@opentelemetry/api` is installed and a
+   * tracer provider is registered. Defaults to true.
+   */
+  tracing?: boolean;
+  /**
+   * Check response bodies against the SDK's zod schemas. `strict` throws a
+   * `ResponseValidationError` with the failing path; `warn` logs it. Disabled by default.
+   */
+  validateResponses?: 'strict' | 'warn';
+  /**
+   * Aggregate chat tokens, compress sizes and upload counts per user,
+   * workspace and tag. Pass a `UsageTracker` to share one between clients.
+   * Streaming completions request usage in their final chunk, which is
+   * recorded without being yielded unless the request sets `stream_options`.
+   * Disabled by default.
+   */
+  usageTracker?: boolean | UsageTrackerOptions | UsageTracker;
 }
 
 export class Mielto {
@@ -20,7 +73,15 @@ export class Mielto {
   public compress: Compress;
   public chat: Chat;
 
-  constructor(options: MieltoOptions | string) {
+  /**
+   * Create a client. Options that are omitted are read from the
+   * `MIELTO_API_KEY`, `MIELTO_BASE_URL`, `MIELTO_TIMEOUT` and
+   * `MIELTO_MAX_RETRIES` environment variables.
+   *
+   * @param options - Client options or an API key
+   * @throws AuthenticationError if no API key is passed or found in the environment
+   */
+  constructor(options: MieltoOptions | string = {}) {
     // Handle both string (API key) and options object
     let opts: MieltoOptions;
     if (typeof options === 'string') {
@@ -29,11 +90,27 @@ export class Mielto {
       opts = options;
     }
 
+    const apiKey = opts.apiKey ?? readEnv('MIELTO_API_KEY');
+    if (!apiKey) {
+      throw new AuthenticationError(
+        'No API key provided. Pass `apiKey` to the Mielto constructor or set the MIELTO_API_KEY environment variable.'
+      );
+    }
+
     this._client = new BaseClient({
-      apiKey: opts.apiKey,
-      baseUrl: opts.baseUrl,
-      timeout: opts.timeout,
-      maxRetries: opts.maxRetries,
+      apiKey,
+      baseUrl: opts.baseUrl ?? readEnv('MIELTO_BASE_URL'),
+      timeout: opts.timeout ?? readEnvInt('MIELTO_TIMEOUT'),
+      maxRetries: opts.maxRetries ?? readEnvInt('MIELTO_MAX_RETRIES'),
+      transport: opts.transport,
+      rateLimit: opts.rateLimit,
+      maxConcurrency: opts.maxConcurrency,
+      circuitBreaker: opts.circuitBreaker,
+      logger: opts.logger,
+      logLevel: opts.logLevel ?? parseLogLevel(readEnv('MIELTO_LOG')),
+      tracing: opts.tracing,
+      validateResponses: opts.validateResponses,
+      usageTracker: opts.usageTracker,
     });
 
     // Initialize resources
@@ -43,6 +120,93 @@ export class Mielto {
     this.chat = new Chat(this._client);
   }
 
+  /**
+   * Derive a lightweight client scoped to a user or workspace.
+   *
+   * The child shares this client's transport and middleware. Its defaults are
+   * injected into memory calls (`user_id`) and chat completions (`user_id`,
+   * `workspace_id`, `collection_ids`) whenever the request leaves them unset.
+   *
+   * @param options - Scoped defaults, extra headers and timeout
+   * @returns A new Mielto client; this client is left unchanged
+   *
+   * @example
+   * ```typescript
+   * const tenant = client.withOptions({ userId: 'user_123', workspaceId: 'ws_456' });
+   * await tenant.memories.search({ query: 'preferences' });
+   * ```
+   */
+  withOptions(options: ClientScopeOptions): Mielto {
+    const child: Mielto = Object.create(Mielto.prototype);
+    child._client = this._client.withOptions(options);
+    child.memories = new Memories(child._client);
+    child.collections = new Collections(child._client);
+    child.compress = new Compress(child._client);
+    child.chat = new Chat(child._client);
+    return child;
+  }
+
+  /**
+   * Create a client configured from environment variables.
+   *
+   * @param overrides - Options that take precedence over the environment
+   * @returns A new Mielto client
+   *
+   * @example
+   * ```typescript
+   * // MIELTO_API_KEY=... MIELTO_TIMEOUT=60000
+   * const client = Mielto.fromEnv();
+   * ```
+   */
+  static fromEnv(overrides: MieltoOptions = {}): Mielto {
+    return new Mielto(overrides);
+  }
+
+  /**
+   * Limiter shared by this client and its scoped children, if `rateLimit` or
+   * `maxConcurrency` was configured. Use it to read or observe queue state.
+   */
+  get limiter(): RequestLimiter | undefined {
+    return this._client.limiter;
+  }
+
+  /**
+   * Circuit breaker shared by this client and its scoped children, if
+   * `circuitBreaker` was configured. Use it to inspect or reset circuits.
+   */
+  get circuitBreaker(): CircuitBreaker | undefined {
+    return this._client.circuitBreaker;
+  }
+
+  /**
+   * Usage tracker shared by this client and its scoped children, if
+   * `usageTracker` was configured. Use it to read or export usage.
+   */
+  get usageTracker(): UsageTracker | undefined {
+    return this._client.usageTracker;
+  }
+
+  /**
+   * Register a middleware with `onRequest`, `onResponse` and `onError` hooks.
+   * Hooks wrap every request made by this client, including streaming chat completions.
+   *
+   * @example
+   * ```typescript
+   * client.use({
+   *   onRequest: ({ request }) => {
+   *     request.headers['traceparent'] = currentTraceparent();
+   *   },
+   *   onResponse: (response, { startTime, request }) => {
+   *     metrics.timing('mielto.latency', Date.now() - startTime, { url: request.url });
+   *   },
+   * });
+   * ```
+   */
+  use(middleware: Middleware): this {
+    this._client.use(middleware);
+    return this;
+  }
+
   close(): void {
     this._client.close();
   }
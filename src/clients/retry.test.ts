@@ -0,0 +1,102 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { getRetryAfterMs, shouldRetry } from './retry';
+import { FakeMieltoServer, fakeErrors } from '../testing';
+import { ConnectionError, RateLimitError, ServerError, TimeoutError, ValidationError } from '../exceptions';
+
+describe('getRetryAfterMs', () => {
+  it('reads retry-after-ms and retry-after in seconds', () => {
+    assert.equal(getRetryAfterMs({ 'retry-after-ms': '250' }), 250);
+    assert.equal(getRetryAfterMs({ 'retry-after': '2' }), 2000);
+  });
+
+  it('reads retry-after as an HTTP date', () => {
+    const delay = getRetryAfterMs({ 'retry-after': new Date(Date.now() + 5000).toUTCString() })!;
+    assert.ok(delay > 3000 && delay <= 5000);
+  });
+
+  it('reads rate-limit reset headers only for rate-limited responses', () => {
+    assert.equal(getRetryAfterMs({ 'x-ratelimit-reset': '120' }), undefined);
+    assert.equal(getRetryAfterMs({ 'x-ratelimit-reset': '120' }, true), 120000);
+  });
+
+  it('returns undefined without a hint', () => {
+    assert.equal(getRetryAfterMs({}), undefined);
+    assert.equal(getRetryAfterMs(undefined), undefined);
+  });
+});
+
+describe('shouldRetry', () => {
+  it('retries server errors and timeouts only for idempotent requests', () => {
+    assert.equal(shouldRetry(new ServerError('down', 503), 'GET'), true);
+    assert.equal(shouldRetry(new ServerError('down', 503), 'POST'), false);
+    assert.equal(shouldRetry(new TimeoutError('slow'), 'POST'), false);
+    assert.equal(shouldRetry(new ServerError('down', 503), 'POST', true), true);
+    assert.equal(shouldRetry(new ServerError('down', 503), 'PUT', false), false);
+  });
+
+  it('retries 429s and connections refused before sending for any method', () => {
+    assert.equal(shouldRetry(new RateLimitError('slow down', 429), 'POST'), true);
+    assert.equal(shouldRetry(new ConnectionError('refused', undefined, undefined, undefined, false), 'POST'), true);
+    assert.equal(shouldRetry(new ConnectionError('reset'), 'POST'), false);
+  });
+
+  it('never retries client errors', () => {
+    assert.equal(shouldRetry(new ValidationError('bad', 422), 'GET'), false);
+    assert.equal(shouldRetry(new Error('boom'), 'GET'), false);
+  });
+});
+
+describe('BaseClient retries', () => {
+  it('waits for Retry-After before retrying a 429', async () => {
+    const server = new FakeMieltoServer();
+    const client = server.createClient({ maxRetries: 2 });
+    server.injectError(fakeErrors.rateLimited(1));
+
+    const started = Date.now();
+    await client.memories.create({ user_id: 'user_123', memory: 'Likes tea' });
+    assert.ok(Date.now() - started >= 950);
+    assert.equal(server.requests.length, 2);
+  });
+
+  it('fails without retrying when Retry-After is too long', async () => {
+    const server = new FakeMieltoServer();
+    const client = server.createClient({ maxRetries: 2 });
+    server.injectError(fakeErrors.rateLimited(3600));
+
+    await assert.rejects(client.memories.list({ user_id: 'user_123' }), (error: unknown) => {
+      assert.ok(error instanceof RateLimitError);
+      assert.equal(error.retryAfterMs, 3600000);
+      return true;
+    });
+    assert.equal(server.requests.length, 1);
+  });
+
+  it('does not retry a server error on a non-idempotent POST', async () => {
+    const server = new FakeMieltoServer();
+    const client = server.createClient({ maxRetries: 3 });
+    server.injectError(fakeErrors.serverError(503));
+
+    await assert.rejects(client.memories.create({ user_id: 'user_123', memory: 'Likes tea' }), ServerError);
+    assert.equal(server.requests.length, 1);
+  });
+
+  it('retries a server error on a read-only search POST', async () => {
+    const server = new FakeMieltoServer();
+    const client = server.createClient({ maxRetries: 3 });
+    server.injectError({ ...fakeErrors.serverError(503), path: '/memories/search' });
+
+    const response = await client.memories.search({ query: 'tea', user_id: 'user_123' });
+    assert.deepEqual(response.memories, []);
+    assert.equal(server.requests.length, 2);
+  });
+
+  it('retries a server error on a GET up to maxRetries', async () => {
+    const server = new FakeMieltoServer();
+    const client = server.createClient({ maxRetries: 1 });
+    server.injectError({ ...fakeErrors.serverError(500), times: 2 });
+
+    await assert.rejects(client.memories.list({ user_id: 'user_123' }), ServerError);
+    assert.equal(server.requests.length, 2);
+  });
+});
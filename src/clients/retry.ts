@@ -0,0 +1,130 @@
+/** Retry helpers shared by the Mielto clients. */
+
+import {
+  MieltoError,
+  RateLimitError,
+  ConnectionError,
+  AbortError,
+  RETRYABLE_STATUS_CODES,
+} from '../exceptions';
+
+/** Status codes worth retrying for idempotent requests. */
+export { RETRYABLE_STATUS_CODES };
+
+/** Methods that can be safely replayed against the API. */
+export const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+
+/** Server-provided waits longer than this are not worth blocking a request on. */
+export const MAX_RETRY_AFTER_MS = 60000;
+
+/**
+ * Calculate an exponential backoff delay with up to 30% jitter.
+ *
+ * @param attempt - Retry attempt number, starting at 1
+ * @param baseDelay - Delay for the first retry in milliseconds
+ * @param maxDelay - Upper bound for the delay before jitter
+ * @param factor - Exponential growth factor
+ * @returns Delay in milliseconds
+ */
+export function calculateRetryDelay(
+  attempt: number,
+  baseDelay: number = 60000,
+  maxDelay: number = 600000,
+  factor: number = 2
+): number {
+  const delay = Math.min(baseDelay * Math.pow(factor, attempt - 1), maxDelay);
+  const jitter = Math.random() * 0.3 * delay;
+  return Math.floor(delay + jitter);
+}
+
+/**
+ * Decide whether a failed request should be retried.
+ *
+ * 429s and connection failures before the request was sent are always
+ * retried, since the server never processed the request. Timeouts, other
+ * connection failures and retryable status codes may follow a request the
+ * server already processed, so they are only retried for idempotent requests.
+ *
+ * @param error - Error raised by the request
+ * @param method - HTTP method of the request
+ * @param idempotent - Whether the request can be replayed; defaults to whether `method` is idempotent
+ */
+export function shouldRetry(error: unknown, method: string, idempotent?: boolean): boolean {
+  if (!(error instanceof MieltoError) || !error.isRetryable) {
+    return false;
+  }
+  if (error instanceof RateLimitError || (error instanceof ConnectionError && !error.requestSent)) {
+    return true;
+  }
+  return idempotent ?? IDEMPOTENT_METHODS.includes(method.toUpperCase());
+}
+
+/**
+ * Read how long the server asked us to wait from response headers.
+ *
+ * Supports `retry-after-ms`, `retry-after` (seconds or HTTP date) and, for
+ * rate-limited responses, the `ratelimit-reset` / `x-ratelimit-reset` headers
+ * (delta seconds or epoch seconds). Other responses may carry a reset header
+ * for an unrelated window, which says nothing about when to retry.
+ *
+ * @param headers - Response headers with lower-cased names
+ * @param rateLimited - Whether the response was rate limited, e.g. a 429
+ * @returns Delay in milliseconds, or undefined if no hint was found
+ */
+export function getRetryAfterMs(headers?: Record<string, any>, rateLimited: boolean = false): number | undefined {
+  if (!headers) {
+    return undefined;
+  }
+
+  const retryAfterMs = parseFloat(headers['retry-after-ms']);
+  if (!isNaN(retryAfterMs)) {
+    return Math.max(0, retryAfterMs);
+  }
+
+  const retryAfter = headers['retry-after'];
+  if (retryAfter !== undefined) {
+    const seconds = parseFloat(retryAfter);
+    if (!isNaN(seconds)) {
+      return Math.max(0, seconds * 1000);
+    }
+    const date = Date.parse(retryAfter);
+    if (!isNaN(date)) {
+      return Math.max(0, date - Date.now());
+    }
+  }
+
+  if (!rateLimited) {
+    return undefined;
+  }
+  const reset = parseFloat(headers['ratelimit-reset'] ?? headers['x-ratelimit-reset']);
+  if (!isNaN(reset)) {
+    // Values this large are epoch timestamps rather than deltas
+    if (reset > 1e9) {
+      return Math.max(0, reset * 1000 - Date.now());
+    }
+    return Math.max(0, reset * 1000);
+  }
+
+  return undefined;
+}
+
+/**
+ * Wait for the given delay, rejecting with an AbortError if the signal fires first.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new AbortError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new AbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,128 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { LineDecoder, SSEDecoder, ServerSentEvent, readServerSentEvents } from './sse';
+import { ConnectionError } from '../exceptions';
+
+function streamOf(chunks: Array<string | Uint8Array>): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      for (const chunk of chunks) {
+        controller.enqueue(typeof chunk === 'string' ? encoder.encode(chunk) : chunk);
+      }
+      controller.close();
+    },
+  });
+}
+
+async function readAll(chunks: Array<string | Uint8Array>): Promise<ServerSentEvent[]> {
+  const events: ServerSentEvent[] = [];
+  for await (const event of readServerSentEvents(streamOf(chunks))) {
+    events.push(event);
+  }
+  return events;
+}
+
+describe('LineDecoder', () => {
+  it('decodes multi-byte characters split across chunks', () => {
+    const bytes = new TextEncoder().encode('héllo 世界 🙂\n');
+    const decoder = new LineDecoder();
+    const lines: string[] = [];
+    for (const byte of bytes) {
+      lines.push(...decoder.decode(Uint8Array.of(byte)));
+    }
+    lines.push(...decoder.flush());
+    assert.deepEqual(lines, ['héllo 世界 🙂']);
+  });
+
+  it('splits on \\r\\n, \\r and \\n', () => {
+    const decoder = new LineDecoder();
+    const encoder = new TextEncoder();
+    assert.deepEqual(decoder.decode(encoder.encode('a\r\nb\rc\nd')), ['a', 'b', 'c']);
+    assert.deepEqual(decoder.flush(), ['d']);
+  });
+
+  it('keeps a \\r\\n pair split across chunks as one line ending', () => {
+    const decoder = new LineDecoder();
+    const encoder = new TextEncoder();
+    assert.deepEqual(decoder.decode(encoder.encode('a\r')), []);
+    assert.deepEqual(decoder.decode(encoder.encode('\nb\r')), ['a']);
+    assert.deepEqual(decoder.decode(encoder.encode('\r')), ['b']);
+    assert.deepEqual(decoder.flush(), ['']);
+  });
+});
+
+describe('SSEDecoder', () => {
+  it('joins multi-line data with \\n', () => {
+    const decoder = new SSEDecoder();
+    assert.equal(decoder.decode('data: first'), null);
+    assert.equal(decoder.decode('data:second'), null);
+    assert.deepEqual(decoder.decode(''), { event: 'message', data: 'first\nsecond', id: undefined, retry: undefined });
+  });
+
+  it('ignores comments and unknown fields', () => {
+    const decoder = new SSEDecoder();
+    assert.equal(decoder.decode(': keep-alive'), null);
+    assert.equal(decoder.decode('foo: bar'), null);
+    assert.equal(decoder.decode(''), null);
+  });
+
+  it('reads event, id and retry fields', () => {
+    const decoder = new SSEDecoder();
+    decoder.decode('event: error');
+    decoder.decode('id: 7');
+    decoder.decode('retry: 1500');
+    decoder.decode('data: {}');
+    assert.deepEqual(decoder.decode(''), { event: 'error', data: '{}', id: '7', retry: 1500 });
+  });
+});
+
+describe('readServerSentEvents', () => {
+  it('decodes an event whose multi-byte characters are split across reads', async () => {
+    const bytes = new TextEncoder().encode('data: {"content":"日本語 🙂"}\n\n');
+    // Split inside the first character of 日 and inside the emoji
+    const events = await readAll([bytes.slice(0, 19), bytes.slice(19, 30), bytes.slice(30)]);
+    assert.deepEqual(events.map(event => event.data), ['{"content":"日本語 🙂"}']);
+  });
+
+  it('accepts CRLF and CR line endings', async () => {
+    const events = await readAll(['data: one\r', '\n\r\ndata: two\r\rdata: three\r\n', '\r\n']);
+    assert.deepEqual(events.map(event => event.data), ['one', 'two', 'three']);
+  });
+
+  it('joins multi-line data fields', async () => {
+    const events = await readAll(['data: {"a":\ndata: 1}\n\n']);
+    assert.deepEqual(events.map(event => event.data), ['{"a":\n1}']);
+  });
+
+  it('skips comment lines', async () => {
+    const events = await readAll([': ping\n\n', 'data: x\n: inline comment\n\n', ':\n\n']);
+    assert.deepEqual(events.map(event => event.data), ['x']);
+  });
+
+  it('dispatches a final event sent without a trailing blank line', async () => {
+    const events = await readAll(['data: a\n\n', 'data: [DONE]']);
+    assert.deepEqual(events.map(event => event.data), ['a', '[DONE]']);
+  });
+
+  it('raises ConnectionError when the connection drops mid-stream', async () => {
+    let sent = false;
+    const body = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        if (sent) {
+          controller.error(new TypeError('terminated'));
+          return;
+        }
+        sent = true;
+        controller.enqueue(new TextEncoder().encode('data: a\n\n'));
+      },
+    });
+    const events: string[] = [];
+    await assert.rejects(async () => {
+      for await (const event of readServerSentEvents(body)) {
+        events.push(event.data);
+      }
+    }, ConnectionError);
+    assert.deepEqual(events, ['a']);
+  });
+});
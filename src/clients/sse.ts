@@ -0,0 +1,192 @@
+/** Decoder for server-sent event streams, following the WHATWG `text/event-stream` format. */
+
+import { MieltoError, AbortError, ConnectionError } from '../exceptions';
+
+export interface ServerSentEvent {
+  /** Event type; `message` when the server sends no `event:` field. */
+  event: string;
+  /** Data lines of the event, joined with `\n`. */
+  data: string;
+  /** Last event ID seen on the stream, if any. */
+  id?: string;
+  /** Reconnection time requested by the server, in milliseconds. */
+  retry?: number;
+}
+
+/**
+ * Split decoded text into lines ending in `\r\n`, `\r` or `\n`.
+ * Handles UTF-8 sequences and `\r\n` pairs split across chunks.
+ */
+export class LineDecoder {
+  private decoder = new TextDecoder();
+  private buffer = '';
+
+  /**
+   * Decode a chunk and return the lines it completes.
+   */
+  decode(chunk: Uint8Array): string[] {
+    this.buffer += this.decoder.decode(chunk, { stream: true });
+    return this.takeLines(false);
+  }
+
+  /**
+   * Return the remaining text as a final line, once the stream has ended.
+   */
+  flush(): string[] {
+    this.buffer += this.decoder.decode();
+    return this.takeLines(true);
+  }
+
+  private takeLines(end: boolean): string[] {
+    let text = this.buffer;
+    let held = '';
+    if (!end && text.endsWith('\r')) {
+      // The next chunk may start with the `\n` of a `\r\n` pair
+      text = text.slice(0, -1);
+      held = '\r';
+    }
+    const lines = text.split(/\r\n|\r|\n/);
+    const rest = lines.pop()!;
+    this.buffer = end ? '' : rest + held;
+    if (end && rest) {
+      lines.push(rest);
+    }
+    return lines;
+  }
+}
+
+/**
+ * Assemble server-sent events from lines.
+ *
+ * Supports multi-line `data:`, `event:`, `id:` and `retry:` fields and ignores
+ * comments and unknown fields.
+ */
+export class SSEDecoder {
+  private event?: string;
+  private data: string[] = [];
+  private id?: string;
+  private retry?: number;
+
+  /**
+   * Process one line without its terminator.
+   *
+   * @returns The completed event when the line is blank, otherwise null
+   */
+  decode(line: string): ServerSentEvent | null {
+    if (line === '') {
+      return this.dispatch();
+    }
+    if (line.startsWith(':')) {
+      // Comment, often sent as a keep-alive
+      return null;
+    }
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) {
+      value = value.slice(1);
+    }
+
+    switch (field) {
+      case 'event':
+        this.event = value;
+        break;
+      case 'data':
+        this.data.push(value);
+        break;
+      case 'id':
+        if (!value.includes('\0')) {
+          this.id = value;
+        }
+        break;
+      case 'retry':
+        if (/^\d+$/.test(value)) {
+          this.retry = parseInt(value, 10);
+        }
+        break;
+    }
+    return null;
+  }
+
+  /**
+   * Dispatch an event left unterminated when the stream ended.
+   * Browsers discard it; we keep it because proxies sometimes drop the final blank line.
+   */
+  flush(): ServerSentEvent | null {
+    return this.dispatch();
+  }
+
+  private dispatch(): ServerSentEvent | null {
+    if (this.data.length === 0) {
+      this.event = undefined;
+      return null;
+    }
+    const event: ServerSentEvent = {
+      event: this.event || 'message',
+      data: this.data.join('\n'),
+      id: this.id,
+      retry: this.retry,
+    };
+    this.event = undefined;
+    this.data = [];
+    return event;
+  }
+}
+
+/**
+ * Read server-sent events from a response body.
+ *
+ * Cancels the body when the consumer stops early. Read failures become an
+ * `AbortError` when `signal` was aborted and a `ConnectionError` otherwise.
+ *
+ * @param body - Raw `text/event-stream` response body
+ * @param signal - Signal that cancelled the request, if any
+ */
+export async function* readServerSentEvents(
+  body: ReadableStream<Uint8Array>,
+  signal?: AbortSignal
+): AsyncGenerator<ServerSentEvent> {
+  const reader = body.getReader();
+  const lineDecoder = new LineDecoder();
+  const sseDecoder = new SSEDecoder();
+
+  try {
+    for (;;) {
+      let result: ReadableStreamReadResult<Uint8Array>;
+      try {
+        result = await reader.read();
+      } catch (error) {
+        if (signal?.aborted) {
+          throw new AbortError();
+        }
+        if (error instanceof MieltoError) {
+          throw error;
+        }
+        // The connection dropped mid-stream
+        const message = error instanceof Error ? error.message : String(error);
+        throw new ConnectionError(`Connection error: ${message}`);
+      }
+
+      const lines = result.done ? lineDecoder.flush() : lineDecoder.decode(result.value);
+      const events = lines.map(line => sseDecoder.decode(line));
+      if (result.done) {
+        events.push(sseDecoder.flush());
+      }
+      for (const event of events) {
+        if (!event) continue;
+        // Buffered events are not delivered after an abort
+        if (signal?.aborted) {
+          throw new AbortError();
+        }
+        yield event;
+      }
+      if (result.done) {
+        return;
+      }
+    }
+  } finally {
+    // Release the connection if the consumer stops early
+    reader.cancel().catch(() => {});
+  }
+}
@@ -0,0 +1,193 @@
+/** Optional OpenTelemetry instrumentation; a no-op unless `@opentelemetry/api` is installed. */
+
+import { MieltoError } from '../exceptions';
+import type * as OpenTelemetry from '@opentelemetry/api';
+
+export type SpanAttributes = Record<string, string | number | boolean | undefined>;
+
+/** The subset of an OpenTelemetry span used by the SDK. */
+export interface TraceSpan {
+  setAttributes(attributes: SpanAttributes): void;
+  /** Record the error and mark the span as failed. */
+  recordError(error: unknown): void;
+  /** Add W3C trace context headers (`traceparent`, `tracestate`) for this span. */
+  inject(headers: Record<string, string>): void;
+  end(): void;
+}
+
+export const NOOP_SPAN: TraceSpan = {
+  setAttributes: () => {},
+  recordError: () => {},
+  inject: () => {},
+  end: () => {},
+};
+
+// OpenTelemetry enum values, inlined so the API stays an optional dependency
+const SPAN_KIND_CLIENT = 2;
+const SPAN_STATUS_ERROR = 2;
+
+/** Endpoint segments that name a resource method rather than an ID. */
+const ACTIONS: Record<string, string> = {
+  search: 'search',
+  replace: 'replace',
+  from_messages: 'fromMessages',
+  chunks: 'getChunks',
+  profile: 'getProfile',
+};
+
+/** Resource method for each HTTP method, on a collection path and on an item path. */
+const CRUD_METHODS: Record<string, [string, string]> = {
+  GET: ['list', 'get'],
+  POST: ['create', 'create'],
+  PUT: ['update', 'update'],
+  DELETE: ['delete', 'delete'],
+};
+
+/**
+ * Module name of the optional peer dependency. Kept in a variable so bundlers
+ * do not try to resolve it when it is not installed.
+ */
+const OPENTELEMETRY_MODULE = '@opentelemetry/api';
+
+let otelPromise: Promise<typeof OpenTelemetry | undefined> | undefined;
+
+function loadOpenTelemetry(): Promise<typeof OpenTelemetry | undefined> {
+  if (!otelPromise) {
+    otelPromise = import(/* @vite-ignore */ /* webpackIgnore: true */ OPENTELEMETRY_MODULE).then(
+      module => module as typeof OpenTelemetry,
+      () => undefined
+    );
+  }
+  return otelPromise;
+}
+
+/**
+ * Name the resource operation behind a request, used as the span name.
+ *
+ * @example
+ * getOperationName('POST', '/memories/search'); // 'memories.search'
+ * getOperationName('POST', '/upload'); // 'collections.insert'
+ */
+export function getOperationName(method: string, endpoint: string): string {
+  const segments = endpoint.split('?')[0].split('/').filter(Boolean);
+  const resource = segments[0] || 'request';
+  switch (resource) {
+    case 'chat':
+      return 'chat.completions.create';
+    case 'compress':
+      return 'compress.compress';
+    case 'upload':
+      return 'collections.insert';
+    case 'chunks':
+      return 'collections.getChunks';
+  }
+
+  const action = segments.length > 1 ? ACTIONS[segments[segments.length - 1]] : undefined;
+  if (action) {
+    return `${resource}.${action}`;
+  }
+  const crud = CRUD_METHODS[method.toUpperCase()];
+  if (!crud) {
+    return `${resource}.${method.toLowerCase()}`;
+  }
+  return `${resource}.${segments.length > 1 ? crud[1] : crud[0]}`;
+}
+
+/**
+ * Start a client span as a child of the active context.
+ * Resolves with a no-op span when `@opentelemetry/api` is not installed.
+ *
+ * @param name - Operation name, e.g. `memories.search`
+ * @param attributes - Initial span attributes
+ */
+export async function startSpan(name: string, attributes: SpanAttributes = {}): Promise<TraceSpan> {
+  const otel = await loadOpenTelemetry();
+  if (!otel?.trace) {
+    return NOOP_SPAN;
+  }
+
+  const { trace, context, propagation } = otel;
+  const span = trace.getTracer('mielto').startSpan(
+    name,
+    { kind: SPAN_KIND_CLIENT, attributes: definedAttributes(attributes) },
+    context.active()
+  );
+  const spanContext = trace.setSpan(context.active(), span);
+
+  return {
+    setAttributes: attrs => span.setAttributes(definedAttributes(attrs)),
+    recordError: error => {
+      if (error instanceof Error) {
+        span.recordException(error);
+      }
+      span.setStatus({
+        code: SPAN_STATUS_ERROR,
+        message: error instanceof Error ? error.message : String(error),
+      });
+      if (error instanceof MieltoError) {
+        span.setAttributes(definedAttributes({
+          'error.type': error.name,
+          'mielto.error_code': error.code,
+          'http.response.status_code': error.statusCode,
+          'mielto.request_id': error.requestId,
+        }));
+      }
+    },
+    inject: headers => propagation.inject(spanContext, headers),
+    end: () => span.end(),
+  };
+}
+
+/**
+ * Span attributes for the token usage reported in a response, if any.
+ */
+export function usageAttributes(data: any): SpanAttributes {
+  const usage = data?.usage;
+  if (!usage || typeof usage !== 'object') {
+    return {};
+  }
+  return {
+    'gen_ai.usage.input_tokens': usage.prompt_tokens,
+    'gen_ai.usage.output_tokens': usage.completion_tokens,
+    'mielto.usage.total_tokens': usage.total_tokens,
+  };
+}
+
+/**
+ * Wrap a streamed response body so the span ends once the stream is fully
+ * read, fails or is cancelled.
+ */
+export function traceStream(body: ReadableStream<Uint8Array>, span: TraceSpan): ReadableStream<Uint8Array> {
+  const reader = body.getReader();
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          span.end();
+          controller.close();
+        } else {
+          controller.enqueue(value);
+        }
+      } catch (error) {
+        span.recordError(error);
+        span.end();
+        controller.error(error);
+      }
+    },
+    cancel(reason) {
+      span.end();
+      return reader.cancel(reason);
+    },
+  });
+}
+
+function definedAttributes(attributes: SpanAttributes): Record<string, string | number | boolean> {
+  const defined: Record<string, string | number | boolean> = {};
+  for (const [key, value] of Object.entries(attributes)) {
+    if (value !== undefined) {
+      defined[key] = value;
+    }
+  }
+  return defined;
+}
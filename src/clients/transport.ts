@@ -0,0 +1,202 @@
+/** Pluggable HTTP transport for the Mielto client. */
+
+import { MieltoError, TimeoutError, ConnectionError, AbortError } from '../exceptions';
+
+export interface TransportRequest {
+  method: string;
+  /** Absolute URL, including the query string. */
+  url: string;
+  headers: Record<string, string>;
+  /** Serialized request body. */
+  body?: string;
+  /** Timeout in milliseconds until the response headers arrive. */
+  timeout?: number;
+  /** Return the unread response body instead of parsing it. */
+  stream?: boolean;
+  /** Cancels the request, including reading a streamed body. */
+  signal?: AbortSignal;
+}
+
+export interface TransportResponse {
+  status: number;
+  statusText?: string;
+  /** Response headers with lower-cased names. */
+  headers: Record<string, string>;
+  /** Parsed response body. Unset for successful streaming requests. */
+  data?: any;
+  /** Raw response body, set for successful streaming requests. */
+  body?: ReadableStream<Uint8Array> | null;
+}
+
+/**
+ * Sends HTTP requests on behalf of the client.
+ *
+ * Implementations resolve with the response for any HTTP status and reject
+ * with a `TimeoutError`, `ConnectionError` or `AbortError` when no response
+ * was received.
+ */
+export interface Transport {
+  request(request: TransportRequest): Promise<TransportResponse>;
+}
+
+export interface FetchTransportOptions {
+  /** Custom fetch implementation. Defaults to the global `fetch`. */
+  fetch?: typeof fetch;
+}
+
+/**
+ * Default transport built on the standard `fetch` API.
+ * Works in Node.js 18+, browsers, Deno, Bun and edge runtimes.
+ */
+export class FetchTransport implements Transport {
+  private fetch: typeof fetch;
+
+  constructor(options: FetchTransportOptions = {}) {
+    // Wrap the global so it is never invoked with a foreign `this`
+    this.fetch = options.fetch || ((input, init) => fetch(input, init));
+  }
+
+  async request(request: TransportRequest): Promise<TransportResponse> {
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = request.timeout
+      ? setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, request.timeout)
+      : undefined;
+
+    const signal = request.signal;
+    if (signal?.aborted) {
+      clearTimeout(timer);
+      throw new AbortError();
+    }
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+    let streaming = false;
+
+    try {
+      let response: Response;
+      try {
+        response = await this.fetch(request.url, {
+          method: request.method,
+          headers: request.headers,
+          body: request.body,
+          signal: controller.signal,
+        });
+      } catch (error) {
+        throw this.createNetworkError(error, timedOut, request);
+      }
+
+      const headers: Record<string, string> = {};
+      response.headers.forEach((value, key) => {
+        headers[key.toLowerCase()] = value;
+      });
+
+      if (request.stream && response.ok && response.body) {
+        // Keep forwarding aborts while the caller reads the body
+        streaming = true;
+        return {
+          status: response.status,
+          statusText: response.statusText,
+          headers,
+          body: onBodySettled(response.body, () => signal?.removeEventListener('abort', onAbort)),
+        };
+      }
+
+      let text: string;
+      try {
+        text = await response.text();
+      } catch (error) {
+        throw this.createNetworkError(error, timedOut, request);
+      }
+
+      return {
+        status: response.status,
+        statusText: response.statusText,
+        headers,
+        data: parseBody(text),
+      };
+    } finally {
+      clearTimeout(timer);
+      if (!streaming) {
+        signal?.removeEventListener('abort', onAbort);
+      }
+    }
+  }
+
+  private createNetworkError(error: unknown, timedOut: boolean, request: TransportRequest): MieltoError {
+    if (timedOut) {
+      return new TimeoutError(`Request timed out: timeout of ${request.timeout}ms exceeded`);
+    }
+    if (request.signal?.aborted) {
+      return new AbortError();
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    const requestSent = !isConnectFailure(error);
+    return new ConnectionError(`Connection error: ${message}`, undefined, undefined, undefined, requestSent);
+  }
+}
+
+/** Error codes of connections that failed before any request bytes were sent. */
+const CONNECT_ERROR_CODES = new Set([
+  'ECONNREFUSED',
+  'ENOTFOUND',
+  'EAI_AGAIN',
+  'ENETUNREACH',
+  'EHOSTUNREACH',
+  'UND_ERR_CONNECT_TIMEOUT',
+]);
+
+/**
+ * Whether a fetch failure happened while connecting, reading the code Node's
+ * fetch puts on the error's `cause`. Runtimes that give no code count as sent.
+ */
+function isConnectFailure(error: unknown): boolean {
+  const cause = (error as { cause?: { code?: unknown; errors?: Array<{ code?: unknown }> } } | undefined)?.cause;
+  // Connecting to several addresses fails with an AggregateError of each attempt
+  const codes = [cause?.code, ...(cause?.errors || []).map(attempt => attempt?.code)];
+  return codes.some(code => typeof code === 'string' && CONNECT_ERROR_CODES.has(code));
+}
+
+/**
+ * Wrap a response body so `onSettled` runs once it has been fully read,
+ * failed or been cancelled.
+ */
+function onBodySettled(body: ReadableStream<Uint8Array>, onSettled: () => void): ReadableStream<Uint8Array> {
+  const reader = body.getReader();
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          onSettled();
+          controller.close();
+        } else {
+          controller.enqueue(value);
+        }
+      } catch (error) {
+        onSettled();
+        controller.error(error);
+      }
+    },
+    cancel(reason) {
+      onSettled();
+      return reader.cancel(reason);
+    },
+  });
+}
+
+/**
+ * Parse a response body as JSON, falling back to the raw text.
+ */
+export function parseBody(text: string): any {
+  if (!text) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
@@ -0,0 +1,281 @@
+/** Client-side usage accounting for chat, compress and upload requests. */
+
+/** Price of a model's tokens, in any currency unit, per million tokens. */
+export interface ModelPricing {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+export interface UsageTrackerOptions {
+  /**
+   * Token prices keyed by model name, used to estimate `cost`.
+   * Models without a price contribute no cost.
+   */
+  pricing?: Record<string, ModelPricing>;
+}
+
+/** Usage reported by a single request. */
+export interface UsageEvent {
+  /** Operation name, e.g. `chat.completions.create` or `compress.compress`. */
+  operation: string;
+  userId?: string;
+  workspaceId?: string;
+  tags: string[];
+  model?: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  /** Estimated cost from `pricing`, when the model has a price. */
+  cost: number;
+  /** Characters sent to compress. */
+  compressInputChars: number;
+  /** Characters returned by compress. */
+  compressOutputChars: number;
+  uploads: number;
+  successfulUploads: number;
+  failedUploads: number;
+  /** Epoch milliseconds when the usage was recorded. */
+  timestamp: number;
+}
+
+/** Aggregated usage for one user, workspace, tag or model. */
+export interface UsageTotals {
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cost: number;
+  compressInputChars: number;
+  compressOutputChars: number;
+  uploads: number;
+  successfulUploads: number;
+  failedUploads: number;
+}
+
+/** JSON-safe export of everything a tracker has recorded. */
+export interface UsageSnapshot {
+  /** Epoch milliseconds when tracking started or was last reset. */
+  since: number;
+  /** Epoch milliseconds when the snapshot was taken. */
+  until: number;
+  totals: UsageTotals;
+  byUser: Record<string, UsageTotals>;
+  byWorkspace: Record<string, UsageTotals>;
+  byTag: Record<string, UsageTotals>;
+  byModel: Record<string, UsageTotals>;
+}
+
+/** Where a request's usage is attributed. */
+export interface UsageAttribution {
+  userId?: string;
+  workspaceId?: string;
+  tags?: string[];
+}
+
+const TOTAL_FIELDS = [
+  'promptTokens',
+  'completionTokens',
+  'totalTokens',
+  'cost',
+  'compressInputChars',
+  'compressOutputChars',
+  'uploads',
+  'successfulUploads',
+  'failedUploads',
+] as const;
+
+/**
+ * Aggregates token, compress and upload usage per user, workspace, tag and model.
+ *
+ * Attach one to a client with the `usageTracker` option; scoped clients share it.
+ * Requests are attributed to the `user_id` and `workspace_id` they carry and to
+ * the `usageTags` of the call and the scoped client.
+ *
+ * @example
+ * ```typescript
+ * const client = new Mielto({ usageTracker: true });
+ * client.usageTracker!.onUsage(event => metrics.increment('mielto.tokens', event.totalTokens));
+ *
+ * await client.withOptions({ userId: 'user_123', usageTags: ['support-bot'] })
+ *   .chat.completions.create({ model: 'gpt-4o', messages });
+ * console.log(client.usageTracker!.snapshot().byUser['user_123'].totalTokens);
+ * ```
+ */
+export class UsageTracker {
+  private pricing: Record<string, ModelPricing>;
+  private since = Date.now();
+  private totals = emptyTotals();
+  private byUser = new Map<string, UsageTotals>();
+  private byWorkspace = new Map<string, UsageTotals>();
+  private byTag = new Map<string, UsageTotals>();
+  private byModel = new Map<string, UsageTotals>();
+  private listeners = new Set<(event: UsageEvent) => void>();
+
+  constructor(options: UsageTrackerOptions = {}) {
+    this.pricing = options.pricing || {};
+  }
+
+  /**
+   * Record the usage reported by a response body, if it reports any.
+   *
+   * @param operation - Operation name, e.g. `chat.completions.create`
+   * @param data - Completion, final stream chunk, compress or upload response
+   * @param attribution - User, workspace and tags to charge
+   * @returns The recorded event, or undefined when the body carries no usage
+   */
+  recordResponse(operation: string, data: any, attribution: UsageAttribution = {}): UsageEvent | undefined {
+    if (!data || typeof data !== 'object') {
+      return undefined;
+    }
+
+    const event = this.createEvent(operation, attribution);
+    if (operation.startsWith('chat.')) {
+      const usage = data.usage;
+      if (!usage || typeof usage !== 'object') {
+        return undefined;
+      }
+      event.model = typeof data.model === 'string' ? data.model : undefined;
+      event.promptTokens = usage.prompt_tokens || 0;
+      event.completionTokens = usage.completion_tokens || 0;
+      event.totalTokens = usage.total_tokens || event.promptTokens + event.completionTokens;
+      const price = event.model ? this.pricing[event.model] : undefined;
+      if (price) {
+        event.cost =
+          (event.promptTokens * price.inputPerMillion + event.completionTokens * price.outputPerMillion) / 1_000_000;
+      }
+    } else if (operation === 'compress.compress') {
+      if (data.original_length === undefined && data.compressed_length === undefined) {
+        return undefined;
+      }
+      event.compressInputChars = data.original_length || 0;
+      event.compressOutputChars = data.compressed_length || 0;
+    } else if (operation === 'collections.insert') {
+      if (data.total_uploads === undefined) {
+        return undefined;
+      }
+      event.uploads = data.total_uploads || 0;
+      event.successfulUploads = data.successful_uploads || 0;
+      event.failedUploads = data.failed_uploads || 0;
+    } else {
+      return undefined;
+    }
+
+    this.record(event);
+    return event;
+  }
+
+  /**
+   * Add an event to the aggregates and notify listeners.
+   * Use it to account for usage the SDK cannot see.
+   */
+  record(event: UsageEvent): void {
+    add(this.totals, event);
+    if (event.userId) add(getTotals(this.byUser, event.userId), event);
+    if (event.workspaceId) add(getTotals(this.byWorkspace, event.workspaceId), event);
+    if (event.model) add(getTotals(this.byModel, event.model), event);
+    for (const tag of new Set(event.tags)) {
+      add(getTotals(this.byTag, tag), event);
+    }
+
+    for (const listener of this.listeners) {
+      listener(event);
+    }
+  }
+
+  /**
+   * Subscribe to every recorded event, e.g. to forward usage to a billing pipeline.
+   *
+   * @returns A function that removes the listener
+   */
+  onUsage(listener: (event: UsageEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Copy of the aggregates, safe to serialize or keep while tracking continues.
+   */
+  snapshot(): UsageSnapshot {
+    return {
+      since: this.since,
+      until: Date.now(),
+      totals: { ...this.totals },
+      byUser: toRecord(this.byUser),
+      byWorkspace: toRecord(this.byWorkspace),
+      byTag: toRecord(this.byTag),
+      byModel: toRecord(this.byModel),
+    };
+  }
+
+  /**
+   * Clear all aggregates, e.g. after exporting a snapshot for a billing period.
+   */
+  reset(): void {
+    this.since = Date.now();
+    this.totals = emptyTotals();
+    this.byUser.clear();
+    this.byWorkspace.clear();
+    this.byTag.clear();
+    this.byModel.clear();
+  }
+
+  private createEvent(operation: string, attribution: UsageAttribution): UsageEvent {
+    return {
+      operation,
+      userId: attribution.userId,
+      workspaceId: attribution.workspaceId,
+      tags: attribution.tags || [],
+      promptTokens: 0,
+      completionTokens: 0,
+      totalTokens: 0,
+      cost: 0,
+      compressInputChars: 0,
+      compressOutputChars: 0,
+      uploads: 0,
+      successfulUploads: 0,
+      failedUploads: 0,
+      timestamp: Date.now(),
+    };
+  }
+}
+
+function emptyTotals(): UsageTotals {
+  return {
+    requests: 0,
+    promptTokens: 0,
+    completionTokens: 0,
+    totalTokens: 0,
+    cost: 0,
+    compressInputChars: 0,
+    compressOutputChars: 0,
+    uploads: 0,
+    successfulUploads: 0,
+    failedUploads: 0,
+  };
+}
+
+function add(totals: UsageTotals, event: UsageEvent): void {
+  totals.requests += 1;
+  for (const field of TOTAL_FIELDS) {
+    totals[field] += event[field];
+  }
+}
+
+function getTotals(map: Map<string, UsageTotals>, key: string): UsageTotals {
+  let totals = map.get(key);
+  if (!totals) {
+    totals = emptyTotals();
+    map.set(key, totals);
+  }
+  return totals;
+}
+
+function toRecord(map: Map<string, UsageTotals>): Record<string, UsageTotals> {
+  const record: Record<string, UsageTotals> = {};
+  for (const [key, totals] of map) {
+    record[key] = { ...totals };
+  }
+  return record;
+}
@@ -6,108 +6,402 @@ export interface ErrorResponse {
   [key: string]: any;
 }
 
+export interface ErrorMetadata {
+  /** Request ID assigned by the API. Include it in support tickets. */
+  requestId?: string;
+  /** Response headers with lower-cased names. */
+  headers?: Record<string, string>;
+  /** How long the server asked the client to wait before retrying, in milliseconds. */
+  retryAfterMs?: number;
+}
+
+/** Status codes that indicate a transient failure. */
+export const RETRYABLE_STATUS_CODES = [408, 429, 500, 502, 503, 504];
+
+/**
+ * Stable error codes synthesized by the SDK. Errors carrying a server
+ * `error_code` expose that instead, so `code` may hold other strings.
+ */
+export type MieltoErrorCode =
+  | 'API_ERROR'
+  | 'AUTHENTICATION'
+  | 'PERMISSION_DENIED'
+  | 'NOT_FOUND'
+  | 'VALIDATION'
+  | 'RATE_LIMIT'
+  | 'SERVER_ERROR'
+  | 'TIMEOUT'
+  | 'CONNECTION'
+  | 'ABORTED'
+  | 'RESPONSE_VALIDATION'
+  | 'STRUCTURED_OUTPUT'
+  | 'CIRCUIT_OPEN'
+  | 'PAYMENT_REQUIRED'
+  | 'CREDIT_LIMIT_EXCEEDED'
+  | 'OVERAGE_LIMIT_EXCEEDED';
+
+/** JSON-safe representation of a MieltoError, e.g. for structured logs. */
+export interface MieltoErrorJSON {
+  name: string;
+  message: string;
+  code: string;
+  statusCode?: number;
+  isRetryable: boolean;
+  retryAfterMs?: number;
+  requestId?: string;
+  responseData?: ErrorResponse;
+}
+
 export class MieltoError extends Error {
+  /** Code synthesized for this error class when the server sends no `error_code`. */
+  static readonly defaultCode: string = 'API_ERROR';
+
+  /** The server's `error_code`, or a code synthesized from the error class. */
+  public readonly code: string;
   public readonly statusCode?: number;
   public readonly responseData?: ErrorResponse;
+  public readonly requestId?: string;
+  public readonly headers?: Record<string, string>;
+  /** How long the server asked the client to wait before retrying, in milliseconds. */
+  public readonly retryAfterMs?: number;
 
   constructor(
     message: string,
     statusCode?: number,
-    responseData?: ErrorResponse
+    responseData?: ErrorResponse,
+    metadata: ErrorMetadata = {}
   ) {
     super(message);
     this.name = 'MieltoError';
+    this.code = responseData?.error_code || (new.target as typeof MieltoError).defaultCode;
     this.statusCode = statusCode;
     this.responseData = responseData;
+    this.requestId = metadata.requestId;
+    this.headers = metadata.headers;
+    this.retryAfterMs = metadata.retryAfterMs;
     Object.setPrototypeOf(this, MieltoError.prototype);
   }
+
+  /**
+   * Whether repeating the request may succeed. Retries of non-idempotent
+   * requests are still only safe when the server never processed them.
+   */
+  get isRetryable(): boolean {
+    return this.statusCode !== undefined && RETRYABLE_STATUS_CODES.includes(this.statusCode);
+  }
+
+  toJSON(): MieltoErrorJSON {
+    return {
+      name: this.name,
+      message: this.message,
+      code: this.code,
+      statusCode: this.statusCode,
+      isRetryable: this.isRetryable,
+      retryAfterMs: this.retryAfterMs,
+      requestId: this.requestId,
+      responseData: this.responseData,
+    };
+  }
 }
 
 export class AuthenticationError extends MieltoError {
-  constructor(message: string, statusCode?: number, responseData?: ErrorResponse) {
-    super(message, statusCode, responseData);
+  static readonly defaultCode: MieltoErrorCode = 'AUTHENTICATION';
+
+  constructor(message: string, statusCode?: number, responseData?: ErrorResponse, metadata?: ErrorMetadata) {
+    super(message, statusCode, responseData, metadata);
     this.name = 'AuthenticationError';
     Object.setPrototypeOf(this, AuthenticationError.prototype);
   }
 }
 
 export class PermissionError extends MieltoError {
-  constructor(message: string, statusCode?: number, responseData?: ErrorResponse) {
-    super(message, statusCode, responseData);
+  static readonly defaultCode: MieltoErrorCode = 'PERMISSION_DENIED';
+
+  constructor(message: string, statusCode?: number, responseData?: ErrorResponse, metadata?: ErrorMetadata) {
+    super(message, statusCode, responseData, metadata);
     this.name = 'PermissionError';
     Object.setPrototypeOf(this, PermissionError.prototype);
   }
 }
 
 export class NotFoundError extends MieltoError {
-  constructor(message: string, statusCode?: number, responseData?: ErrorResponse) {
-    super(message, statusCode, responseData);
+  static readonly defaultCode: MieltoErrorCode = 'NOT_FOUND';
+
+  constructor(message: string, statusCode?: number, responseData?: ErrorResponse, metadata?: ErrorMetadata) {
+    super(message, statusCode, responseData, metadata);
     this.name = 'NotFoundError';
     Object.setPrototypeOf(this, NotFoundError.prototype);
   }
 }
 
 export class ValidationError extends MieltoError {
-  constructor(message: string, statusCode?: number, responseData?: ErrorResponse) {
-    super(message, statusCode, responseData);
+  static readonly defaultCode: MieltoErrorCode = 'VALIDATION';
+
+  constructor(message: string, statusCode?: number, responseData?: ErrorResponse, metadata?: ErrorMetadata) {
+    super(message, statusCode, responseData, metadata);
     this.name = 'ValidationError';
     Object.setPrototypeOf(this, ValidationError.prototype);
   }
 }
 
 export class RateLimitError extends MieltoError {
-  constructor(message: string, statusCode?: number, responseData?: ErrorResponse) {
-    super(message, statusCode, responseData);
+  static readonly defaultCode: MieltoErrorCode = 'RATE_LIMIT';
+
+  constructor(message: string, statusCode?: number, responseData?: ErrorResponse, metadata?: ErrorMetadata) {
+    super(message, statusCode, responseData, metadata);
     this.name = 'RateLimitError';
     Object.setPrototypeOf(this, RateLimitError.prototype);
   }
+
+  override get isRetryable(): boolean {
+    return true;
+  }
 }
 
 export class ServerError extends MieltoError {
-  constructor(message: string, statusCode?: number, responseData?: ErrorResponse) {
-    super(message, statusCode, responseData);
+  static readonly defaultCode: MieltoErrorCode = 'SERVER_ERROR';
+
+  constructor(message: string, statusCode?: number, responseData?: ErrorResponse, metadata?: ErrorMetadata) {
+    super(message, statusCode, responseData, metadata);
     this.name = 'ServerError';
     Object.setPrototypeOf(this, ServerError.prototype);
   }
 }
 
 export class TimeoutError extends MieltoError {
-  constructor(message: string, statusCode?: number, responseData?: ErrorResponse) {
-    super(message, statusCode, responseData);
+  static readonly defaultCode: MieltoErrorCode = 'TIMEOUT';
+
+  constructor(message: string, statusCode?: number, responseData?: ErrorResponse, metadata?: ErrorMetadata) {
+    super(message, statusCode, responseData, metadata);
     this.name = 'TimeoutError';
     Object.setPrototypeOf(this, TimeoutError.prototype);
   }
+
+  override get isRetryable(): boolean {
+    return true;
+  }
 }
 
 export class ConnectionError extends MieltoError {
-  constructor(message: string, statusCode?: number, responseData?: ErrorResponse) {
-    super(message, statusCode, responseData);
+  static readonly defaultCode: MieltoErrorCode = 'CONNECTION';
+
+  /**
+   * False when the connection failed before the request was sent, e.g. the
+   * host could not be resolved or refused the connection. Otherwise the server
+   * may have received the request.
+   */
+  public readonly requestSent: boolean;
+
+  constructor(
+    message: string,
+    statusCode?: number,
+    responseData?: ErrorResponse,
+    metadata?: ErrorMetadata,
+    requestSent: boolean = true
+  ) {
+    super(message, statusCode, responseData, metadata);
     this.name = 'ConnectionError';
+    this.requestSent = requestSent;
     Object.setPrototypeOf(this, ConnectionError.prototype);
   }
+
+  override get isRetryable(): boolean {
+    return true;
+  }
+}
+
+export class AbortError extends MieltoError {
+  static readonly defaultCode: MieltoErrorCode = 'ABORTED';
+
+  constructor(
+    message: string = 'Request was aborted',
+    statusCode?: number,
+    responseData?: ErrorResponse,
+    metadata?: ErrorMetadata
+  ) {
+    super(message, statusCode, responseData, metadata);
+    this.name = 'AbortError';
+    Object.setPrototypeOf(this, AbortError.prototype);
+  }
+
+  override get isRetryable(): boolean {
+    return false;
+  }
+}
+
+/** A single mismatch between a response and its schema. */
+export interface ValidationIssue {
+  path: PropertyKey[];
+  message: string;
+}
+
+export class ResponseValidationError extends MieltoError {
+  static readonly defaultCode: MieltoErrorCode = 'RESPONSE_VALIDATION';
+
+  /** Dotted path of the first failing field, e.g. `memories.0.memory_id`. */
+  public readonly path: string;
+  public readonly issues: ValidationIssue[];
+
+  constructor(
+    message: string,
+    path: string,
+    issues: ValidationIssue[] = [],
+    statusCode?: number,
+    responseData?: ErrorResponse,
+    metadata?: ErrorMetadata
+  ) {
+    super(message, statusCode, responseData, metadata);
+    this.name = 'ResponseValidationError';
+    this.path = path;
+    this.issues = issues;
+    Object.setPrototypeOf(this, ResponseValidationError.prototype);
+  }
+}
+
+/**
+ * Raised when model output requested with a schema is not valid JSON or
+ * does not match the schema.
+ */
+export class StructuredOutputError extends MieltoError {
+  static readonly defaultCode: MieltoErrorCode = 'STRUCTURED_OUTPUT';
+
+  /** The model's output as received, e.g. `message.content` or tool-call arguments. */
+  public readonly rawText: string;
+  public readonly issues: ValidationIssue[];
+
+  constructor(message: string, rawText: string, issues: ValidationIssue[] = [], metadata?: ErrorMetadata) {
+    super(message, undefined, undefined, metadata);
+    this.name = 'StructuredOutputError';
+    this.rawText = rawText;
+    this.issues = issues;
+    Object.setPrototypeOf(this, StructuredOutputError.prototype);
+  }
+
+  override get isRetryable(): boolean {
+    return false;
+  }
+}
+
+export class CircuitOpenError extends MieltoError {
+  static readonly defaultCode: MieltoErrorCode = 'CIRCUIT_OPEN';
+
+  /** Endpoint family whose circuit is open, e.g. `memories`. */
+  public readonly family?: string;
+  /** Epoch milliseconds after which a probe request will be allowed. */
+  public readonly resetAt?: number;
+
+  constructor(message: string, family?: string, resetAt?: number, metadata?: ErrorMetadata) {
+    super(message, undefined, undefined, metadata);
+    this.name = 'CircuitOpenError';
+    this.family = family;
+    this.resetAt = resetAt;
+    Object.setPrototypeOf(this, CircuitOpenError.prototype);
+  }
+
+  override get isRetryable(): boolean {
+    return false;
+  }
 }
 
 export class PaymentRequiredError extends MieltoError {
-  constructor(message: string, statusCode?: number, responseData?: ErrorResponse) {
-    super(message, statusCode, responseData);
+  static readonly defaultCode: MieltoErrorCode = 'PAYMENT_REQUIRED';
+
+  constructor(message: string, statusCode?: number, responseData?: ErrorResponse, metadata?: ErrorMetadata) {
+    super(message, statusCode, responseData, metadata);
     this.name = 'PaymentRequiredError';
     Object.setPrototypeOf(this, PaymentRequiredError.prototype);
   }
 }
 
 export class CreditLimitExceededError extends MieltoError {
-  constructor(message: string, statusCode?: number, responseData?: ErrorResponse) {
-    super(message, statusCode, responseData);
+  static readonly defaultCode: MieltoErrorCode = 'CREDIT_LIMIT_EXCEEDED';
+
+  /** Limit details sent with the error, such as current usage and the limit. */
+  public readonly limitInfo: Record<string, any>;
+
+  constructor(message: string, statusCode?: number, responseData?: ErrorResponse, metadata?: ErrorMetadata) {
+    super(message, statusCode, responseData, metadata);
     this.name = 'CreditLimitExceededError';
+    this.limitInfo = getLimitInfo(responseData);
     Object.setPrototypeOf(this, CreditLimitExceededError.prototype);
   }
+
+  override get isRetryable(): boolean {
+    return false;
+  }
 }
 
 export class OverageLimitExceededError extends MieltoError {
-  constructor(message: string, statusCode?: number, responseData?: ErrorResponse) {
-    super(message, statusCode, responseData);
+  static readonly defaultCode: MieltoErrorCode = 'OVERAGE_LIMIT_EXCEEDED';
+
+  /** Limit details sent with the error, such as current usage and the limit. */
+  public readonly limitInfo: Record<string, any>;
+
+  constructor(message: string, statusCode?: number, responseData?: ErrorResponse, metadata?: ErrorMetadata) {
+    super(message, statusCode, responseData, metadata);
     this.name = 'OverageLimitExceededError';
+    this.limitInfo = getLimitInfo(responseData);
     Object.setPrototypeOf(this, OverageLimitExceededError.prototype);
   }
+
+  override get isRetryable(): boolean {
+    return false;
+  }
+}
+
+/**
+ * Fields of an error response other than the message and code.
+ */
+function getLimitInfo(responseData?: ErrorResponse): Record<string, any> {
+  if (!responseData) {
+    return {};
+  }
+  const { detail, message, error_code, request_id, ...limitInfo } = responseData;
+  return limitInfo;
 }
 
+/** Error class returned by `isMieltoError` for each synthesized code. */
+export interface MieltoErrorsByCode {
+  API_ERROR: MieltoError;
+  AUTHENTICATION: AuthenticationError;
+  PERMISSION_DENIED: PermissionError;
+  NOT_FOUND: NotFoundError;
+  VALIDATION: ValidationError;
+  RATE_LIMIT: RateLimitError;
+  SERVER_ERROR: ServerError;
+  TIMEOUT: TimeoutError;
+  CONNECTION: ConnectionError;
+  ABORTED: AbortError;
+  RESPONSE_VALIDATION: ResponseValidationError;
+  STRUCTURED_OUTPUT: StructuredOutputError;
+  CIRCUIT_OPEN: CircuitOpenError;
+  PAYMENT_REQUIRED: PaymentRequiredError;
+  CREDIT_LIMIT_EXCEEDED: CreditLimitExceededError;
+  OVERAGE_LIMIT_EXCEEDED: OverageLimitExceededError;
+}
+
+/**
+ * Check whether a value is a MieltoError, optionally with a given code.
+ *
+ * A code matches both the error's `code` and the code synthesized for its
+ * class, so `'RATE_LIMIT'` matches every `RateLimitError` regardless of the
+ * server's `error_code`.
+ *
+ * @example
+ * ```typescript
+ * if (isMieltoError(error, 'RATE_LIMIT')) {
+ *   await sleep(error.retryAfterMs ?? 1000);
+ * }
+ * ```
+ */
+export function isMieltoError<C extends MieltoErrorCode>(error: unknown, code: C): error is MieltoErrorsByCode[C];
+export function isMieltoError(error: unknown, code?: string): error is MieltoError;
+export function isMieltoError(error: unknown, code?: string): error is MieltoError {
+  if (!(error instanceof MieltoError)) {
+    return false;
+  }
+  if (code === undefined) {
+    return true;
+  }
+  return error.code === code || (error.constructor as typeof MieltoError).defaultCode === code;
+}
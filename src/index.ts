@@ -1,8 +1,51 @@
 /** Mielto TypeScript SDK - Main entry point. */
 
 // Client classes
-export { Mielto, BaseClient } from './clients/index';
-export type { MieltoOptions, BaseClientOptions } from './clients/index';
+export {
+  Mielto,
+  BaseClient,
+  FetchTransport,
+  APIPromise,
+  RequestLimiter,
+  CircuitBreaker,
+  getEndpointFamily,
+  createLogger,
+  UsageTracker,
+  SSEDecoder,
+  LineDecoder,
+  readServerSentEvents,
+} from './clients/index';
+export type {
+  MieltoOptions,
+  BaseClientOptions,
+  RequestOptions,
+  RequestConfig,
+  ClientDefaults,
+  ClientScopeOptions,
+  ApiKeyProvider,
+  Transport,
+  TransportRequest,
+  TransportResponse,
+  FetchTransportOptions,
+  Middleware,
+  MiddlewareContext,
+  APIResponse,
+  APIResponseMetadata,
+  RateLimitOptions,
+  LimiterOptions,
+  LimiterState,
+  CircuitBreakerOptions,
+  CircuitState,
+  Logger,
+  LogLevel,
+  UsageTrackerOptions,
+  ModelPricing,
+  UsageEvent,
+  UsageTotals,
+  UsageSnapshot,
+  UsageAttribution,
+  ServerSentEvent,
+} from './clients/index';
 
 // Exception classes
 export * from './exceptions';
@@ -10,9 +53,15 @@ export * from './exceptions';
 // Type definitions
 export * from './types/index';
 
+// Zod schemas for the type definitions
+export * from './schemas/index';
+
 // Resource classes
 export * from './resources/index';
 
+// Token counting
+export * from './tokenizer';
+
 // Legacy compress client (deprecated - use Mielto.compress instead)
 // Note: Legacy client kept for backward compatibility
 export { MieltoCompressClient } from './legacy/compress';
@@ -1,6 +1,9 @@
 /** Legacy MieltoCompressClient - Use Mielto.compress instead. */
 
 import axios, { AxiosInstance, AxiosError } from 'axios';
+import { calculateRetryDelay } from '../clients/retry';
+import { Logger, LogLevel, createLogger, parseLogLevel } from '../clients/logger';
+import { readEnv } from '../utils';
 
 // ============= TYPES =============
 
@@ -41,6 +44,8 @@ export interface CompressOptions {
   maxRetries?: number;
   retryDelay?: number;
   onRetry?: (attempt: number, error: any) => void;
+  logger?: Logger;
+  logLevel?: LogLevel;
 }
 
 export interface RetryConfig {
@@ -84,16 +89,7 @@ export function calculateTimeout(content: Content): number {
   return Math.min(timeout, 120000);
 }
 
-export function calculateRetryDelay(
-  attempt: number,
-  baseDelay: number = 60000,
-  maxDelay: number = 600000,
-  factor: number = 2
-): number {
-  const delay = Math.min(baseDelay * Math.pow(factor, attempt - 1), maxDelay);
-  const jitter = Math.random() * 0.3 * delay;
-  return Math.floor(delay + jitter);
-}
+export { calculateRetryDelay };
 
 export function calculateProcessingDelay(contentLength: number): number {
   const minutes = Math.ceil(contentLength / 15000);
@@ -136,6 +132,7 @@ export class MieltoCompressClient {
   private client: AxiosInstance;
   private retryConfig: RetryConfig;
   private onRetry?: (attempt: number, error: any) => void;
+  private logger: Logger;
 
   constructor(apiKeyOrOptions?: string | CompressOptions) {
     let options: CompressOptions = {};
@@ -152,7 +149,9 @@ export class MieltoCompressClient {
       timeout = 120000,
       maxRetries = 10,
       retryDelay = 10000,
-      onRetry
+      onRetry,
+      logger,
+      logLevel
     } = options;
 
     this.client = axios.create({
@@ -172,6 +171,7 @@ export class MieltoCompressClient {
     };
 
     this.onRetry = onRetry;
+    this.logger = createLogger(logger, logLevel ?? parseLogLevel(readEnv('MIELTO_LOG')));
   }
 
   async compress(request: CompressRequest): Promise<CompressResponse> {
@@ -192,7 +192,7 @@ export class MieltoCompressClient {
     const timeout = calculateTimeout(request.content);
 
     if (messageCount > 100 && !request.webhook_url) {
-      console.warn(
+      this.logger.warn(
         `Warning: You have ${messageCount} messages. Consider using webhook_url for better reliability.`
       );
     }
@@ -227,7 +227,7 @@ export class MieltoCompressClient {
             });
           }
 
-          console.log(
+          this.logger.info(
             `Content is still being processed (${contentLength} characters). ` +
             `Retrying in ${Math.round(delay / 1000)}s (${Math.round(delay / 60000)} minutes)... ` +
             `(attempt ${attempt}/${this.retryConfig.maxRetries})`
@@ -261,7 +261,7 @@ export class MieltoCompressClient {
             this.onRetry(attempt, error);
           }
 
-          console.log(
+          this.logger.info(
             `Retrying request (attempt ${attempt}/${this.retryConfig.maxRetries}) after ${Math.round(delay / 1000)}s delay. ` +
             `Error: ${axiosError.response?.status || 'Network error'}`
           );
@@ -0,0 +1,354 @@
+/** Stateful chat conversations that keep their own history and IDs. */
+
+import type { RequestOptions } from '../clients/base';
+import type { Chat, Completions } from './chat';
+import type { ChatCompletionStream } from './chat-stream';
+import type { RunnableFunction, RunnableToolSet } from './chat-tools';
+import { MieltoError } from '../exceptions';
+import { TokenCounter } from '../tokenizer';
+import { ChatCompletion, ChatCompletionRequest, ChatMessage } from '../types/chat';
+
+/** Turns trimmed from a conversation, condensed into text. */
+export type ConversationSummarizer = (
+  messages: ChatMessage[],
+  previousSummary: string | undefined
+) => string | Promise<string>;
+
+/** Request parameters sent with every completion of a conversation. */
+export type ConversationParams = Omit<
+  ChatCompletionRequest,
+  | 'model'
+  | 'messages'
+  | 'stream'
+  | 'tools'
+  | 'user_id'
+  | 'workspace_id'
+  | 'collection_ids'
+  | 'conversation_id'
+  | 'session_id'
+>;
+
+export interface ConversationOptions {
+  model: string;
+  userId?: string;
+  workspaceId?: string;
+  collectionIds?: string[];
+  systemPrompt?: string;
+  /** Sent as `conversation_id`. Defaults to a generated ID. */
+  conversationId?: string;
+  /** Sent as `session_id`. */
+  sessionId?: string;
+  /**
+   * Token budget for the messages of each request, system prompt included.
+   * The oldest turns are trimmed to stay within it; the latest turn is always kept.
+   */
+  maxContextTokens?: number;
+  /** Counts tokens for `maxContextTokens`. Defaults to `approximateTokens`. */
+  tokenCounter?: TokenCounter;
+  /**
+   * Summarize trimmed turns into the system message instead of dropping them.
+   * `true` asks the conversation's model for the summary.
+   */
+  summarize?: boolean | ConversationSummarizer;
+  /** Tools `send()` runs through `chat.completions.runTools`. */
+  tools?: RunnableToolSet | RunnableFunction[];
+  /** Maximum completions per `send()` when `tools` are set. Defaults to 10. */
+  maxSteps?: number;
+  /** Other parameters sent with every completion, e.g. `temperature`. */
+  params?: ConversationParams;
+}
+
+/** JSON-safe state of a conversation, from `toJSON()`. */
+export interface ConversationState {
+  version: 1;
+  model: string;
+  userId?: string;
+  workspaceId?: string;
+  collectionIds?: string[];
+  systemPrompt?: string;
+  conversationId: string;
+  sessionId?: string;
+  maxContextTokens?: number;
+  params?: ConversationParams;
+  /** Summary of trimmed turns. */
+  summary?: string;
+  /** History without the system message. */
+  messages: ChatMessage[];
+}
+
+/** Options that cannot be serialized and are passed again to `fromJSON()`. */
+export type ConversationRestoreOptions = Pick<ConversationOptions, 'summarize' | 'tools' | 'maxSteps' | 'tokenCounter'>;
+
+interface PreparedTurn {
+  history: ChatMessage[];
+  summary?: string;
+}
+
+const defaultTokenCounter = new TokenCounter();
+
+const SUMMARY_PROMPT =
+  'Summarize the conversation below for the assistant that continues it. ' +
+  'Keep facts about the user, decisions and open questions. Reply with the summary only.';
+
+/**
+ * A chat conversation that keeps its history, sends it with every message and
+ * trims it to a token budget.
+ *
+ * Assistant replies, and the tool calls and results of `send()` with `tools`,
+ * are appended automatically. Send one message at a time; a message whose
+ * request fails is not added to the history.
+ *
+ * @example
+ * ```typescript
+ * const conversation = client.chat.conversation({
+ *   model: 'gpt-4o',
+ *   userId: 'user_123',
+ *   systemPrompt: 'You are a helpful assistant.',
+ *   maxContextTokens: 8000,
+ *   summarize: true,
+ * });
+ *
+ * const reply = await conversation.send('My name is Ana.');
+ * const stream = await conversation.stream('What is my name?');
+ * stream.on('content.delta', ({ delta }) => process.stdout.write(delta));
+ * await stream.finalCompletion();
+ *
+ * await kv.set(conversation.conversationId, JSON.stringify(conversation));
+ * ```
+ */
+export class Conversation {
+  public readonly conversationId: string;
+
+  private completions: Completions;
+  private options: ConversationOptions;
+  private history: ChatMessage[];
+  private currentSummary?: string;
+
+  constructor(completions: Completions, options: ConversationOptions, history: ChatMessage[] = [], summary?: string) {
+    this.completions = completions;
+    this.options = options;
+    this.conversationId = options.conversationId || generateConversationId();
+    this.history = history.map(copyMessage);
+    this.currentSummary = summary;
+  }
+
+  /**
+   * Restore a conversation saved with `toJSON()`.
+   *
+   * @param chat - `client.chat` of the client to continue on
+   * @param state - Saved state, parsed from JSON
+   * @param options - Tools and summarizer, which are not saved
+   */
+  static fromJSON(chat: Chat, state: ConversationState, options: ConversationRestoreOptions = {}): Conversation {
+    if (state?.version !== 1) {
+      throw new MieltoError(`Unsupported conversation state version: ${state?.version}`);
+    }
+    const { version: _version, summary, messages, ...rest } = state;
+    return new Conversation(chat.completions, { ...rest, ...options }, messages, summary);
+  }
+
+  /** History without the system message. */
+  get messages(): ChatMessage[] {
+    return this.history.map(copyMessage);
+  }
+
+  /** Summary of trimmed turns, when `summarize` is enabled. */
+  get summary(): string | undefined {
+    return this.currentSummary;
+  }
+
+  get sessionId(): string | undefined {
+    return this.options.sessionId;
+  }
+
+  /**
+   * Send a user message and append the reply. With `tools`, the requested
+   * tools are executed and their calls and results appended as well.
+   *
+   * @returns The final completion
+   */
+  async send(content: string | ChatMessage, requestOptions?: RequestOptions): Promise<ChatCompletion> {
+    const turn = await this.prepare(content, requestOptions);
+    const messages = this.buildMessages(turn);
+    const { tools, maxSteps } = this.options;
+
+    if (tools) {
+      const result = await this.completions.runTools(
+        { ...this.buildRequest(messages), tools, maxSteps },
+        requestOptions
+      );
+      this.commit(turn, result.messages.slice(messages.length));
+      return result.completion;
+    }
+
+    const completion = await this.completions.create(
+      { ...this.buildRequest(messages), stream: false },
+      requestOptions
+    );
+    this.commit(turn, [completion.choices[0]?.message || { role: 'assistant', content: '' }]);
+    return completion;
+  }
+
+  /**
+   * Send a user message and stream the reply. The reply is appended once the
+   * stream has been read to the end; a stream that fails, is aborted or is not
+   * read completely leaves the conversation unchanged. Streams are sent without
+   * `tools`; use `send()` for tool calls.
+   */
+  async stream(content: string | ChatMessage, requestOptions?: RequestOptions): Promise<ChatCompletionStream> {
+    const turn = await this.prepare(content, requestOptions);
+    const stream = await this.completions.create(
+      { ...this.buildRequest(this.buildMessages(turn)), stream: true },
+      requestOptions
+    );
+    stream.on('completion', ({ completion }) => {
+      this.commit(turn, [completion.choices[0]?.message || { role: 'assistant', content: '' }]);
+    });
+    return stream;
+  }
+
+  /**
+   * Serializable state, including the history. Tools and summarizer
+   * functions are not included; pass them again to `fromJSON()`.
+   */
+  toJSON(): ConversationState {
+    const { model, userId, workspaceId, collectionIds, systemPrompt, sessionId, maxContextTokens, params } =
+      this.options;
+    return {
+      version: 1,
+      model,
+      userId,
+      workspaceId,
+      collectionIds,
+      systemPrompt,
+      conversationId: this.conversationId,
+      sessionId,
+      maxContextTokens,
+      params,
+      summary: this.currentSummary,
+      messages: this.messages,
+    };
+  }
+
+  /**
+   * Add the user message and trim the oldest turns to the token budget,
+   * without changing the conversation until the reply arrives.
+   */
+  private async prepare(content: string | ChatMessage, requestOptions?: RequestOptions): Promise<PreparedTurn> {
+    const message: ChatMessage = typeof content === 'string' ? { role: 'user', content } : content;
+    const turn: PreparedTurn = { history: [...this.history, message], summary: this.currentSummary };
+
+    const budget = this.options.maxContextTokens;
+    if (budget === undefined) {
+      return turn;
+    }
+
+    const counter = this.options.tokenCounter || defaultTokenCounter;
+    const turns = splitTurns(turn.history);
+    const dropped: ChatMessage[] = [];
+    while (turns.length > 1 && counter.countMessages(this.buildMessages(turn)) > budget) {
+      dropped.push(...turns.shift()!);
+      turn.history = turns.flat();
+    }
+
+    if (dropped.length > 0 && this.options.summarize) {
+      const summarize =
+        typeof this.options.summarize === 'function'
+          ? this.options.summarize
+          : (messages: ChatMessage[], previous: string | undefined) =>
+              this.summarizeWithModel(messages, previous, requestOptions);
+      turn.summary = await summarize(dropped, turn.summary);
+    }
+    return turn;
+  }
+
+  private commit(turn: PreparedTurn, replies: ChatMessage[]): void {
+    this.history = [...turn.history, ...replies.map(copyMessage)];
+    this.currentSummary = turn.summary;
+  }
+
+  private buildMessages(turn: PreparedTurn): ChatMessage[] {
+    const { systemPrompt } = this.options;
+    const parts = [
+      systemPrompt,
+      turn.summary ? `Summary of the earlier conversation:\n${turn.summary}` : undefined,
+    ].filter(Boolean);
+    const system: ChatMessage[] = parts.length > 0 ? [{ role: 'system', content: parts.join('\n\n') }] : [];
+    return [...system, ...turn.history];
+  }
+
+  private buildRequest(messages: ChatMessage[]): ChatCompletionRequest {
+    const { model, userId, workspaceId, collectionIds, sessionId, params } = this.options;
+    return {
+      ...params,
+      model,
+      messages,
+      conversation_id: this.conversationId,
+      ...(userId !== undefined ? { user_id: userId } : {}),
+      ...(workspaceId !== undefined ? { workspace_id: workspaceId } : {}),
+      ...(collectionIds !== undefined ? { collection_ids: collectionIds } : {}),
+      ...(sessionId !== undefined ? { session_id: sessionId } : {}),
+    };
+  }
+
+  private async summarizeWithModel(
+    messages: ChatMessage[],
+    previousSummary: string | undefined,
+    requestOptions?: RequestOptions
+  ): Promise<string> {
+    const transcript = messages
+      .map(message => `${message.role}: ${contentToText(message)}`)
+      .join('\n');
+    const completion = await this.completions.create(
+      {
+        model: this.options.model,
+        messages: [
+          { role: 'system', content: SUMMARY_PROMPT },
+          {
+            role: 'user',
+            content: previousSummary ? `Earlier summary:\n${previousSummary}\n\n${transcript}` : transcript,
+          },
+        ],
+        stream: false,
+      },
+      requestOptions
+    );
+    const summary = completion.choices[0]?.message.content;
+    return typeof summary === 'string' ? summary : previousSummary || '';
+  }
+}
+
+/**
+ * Group messages into turns that each start with a user message, so tool
+ * calls are never separated from their results.
+ */
+function splitTurns(messages: ChatMessage[]): ChatMessage[][] {
+  const turns: ChatMessage[][] = [];
+  for (const message of messages) {
+    if (message.role === 'user' || turns.length === 0) {
+      turns.push([message]);
+    } else {
+      turns[turns.length - 1].push(message);
+    }
+  }
+  return turns;
+}
+
+function contentToText(message: ChatMessage): string {
+  if (typeof message.content === 'string') {
+    return message.content;
+  }
+  return (message.content || []).map(part => (typeof part.text === 'string' ? part.text : '')).join('');
+}
+
+function copyMessage(message: ChatMessage): ChatMessage {
+  return JSON.parse(JSON.stringify(message));
+}
+
+function generateConversationId(): string {
+  const crypto = (globalThis as any).crypto;
+  if (typeof crypto?.randomUUID === 'function') {
+    return `conv_${crypto.randomUUID()}`;
+  }
+  return `conv_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 10)}`;
+}
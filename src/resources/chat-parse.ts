@@ -0,0 +1,251 @@
+/** Structured outputs: zod-typed chat completion content and tool arguments. */
+
+import { z } from 'zod';
+import { StructuredOutputError, ErrorMetadata, ValidationIssue } from '../exceptions';
+import type { RunnableFunction } from './chat-tools';
+import {
+  ChatCompletion,
+  ChatCompletionChoice,
+  ChatCompletionRequest,
+  ChatCompletionResponseFormat,
+  ChatMessage,
+  ChatToolCall,
+  ToolDefinition,
+} from '../types/chat';
+
+/** A function tool whose arguments are described and validated by a zod schema. */
+export interface ZodFunction<Schema extends z.ZodType = z.ZodType> extends RunnableFunction<z.infer<Schema>> {
+  /** Schema the arguments are validated against. */
+  schema: Schema;
+  /** Send the tool with `strict: true`. */
+  strict: boolean;
+  parse: (args: string) => z.infer<Schema>;
+}
+
+export interface ZodFunctionOptions<Schema extends z.ZodType> {
+  name: string;
+  description?: string;
+  parameters: Schema;
+  /** Implementation used by `runTools`. Not needed with `parse`. */
+  execute?: (args: z.infer<Schema>) => unknown | Promise<unknown>;
+  /** Defaults to true. Disable for schemas with optional fields, which strict mode rejects. */
+  strict?: boolean;
+}
+
+export interface ParsedChatToolCall<Args = unknown> extends ChatToolCall {
+  /** Arguments validated by the matching `zodFunction`, if the call has one. */
+  parsed_arguments?: Args;
+}
+
+export interface ParsedChatMessage<T> extends ChatMessage {
+  /** Content validated against the request's schema; null without a schema or for tool-call messages. */
+  parsed: T | null;
+  tool_calls?: ParsedChatToolCall[];
+}
+
+export interface ParsedChatCompletionChoice<T> extends ChatCompletionChoice {
+  message: ParsedChatMessage<T>;
+}
+
+export interface ParsedChatCompletion<T> extends ChatCompletion {
+  choices: ParsedChatCompletionChoice<T>[];
+  /** `parsed` of the first choice. */
+  parsed: T | null;
+}
+
+export interface ChatCompletionParseRequest<Schema extends z.ZodType = z.ZodType>
+  extends Omit<ChatCompletionRequest, 'stream' | 'stream_options' | 'response_format' | 'tools'> {
+  /** Schema the assistant's reply must match. Sent as a `json_schema` response format. */
+  schema?: Schema;
+  /** Name of the response format. Defaults to `response`. */
+  schemaName?: string;
+  /** Defaults to true. Disable for schemas with optional fields, which strict mode rejects. */
+  strict?: boolean;
+  /** Tools whose arguments are validated when they are `zodFunction`s. */
+  tools?: Array<ZodFunction<any> | ToolDefinition>;
+}
+
+/**
+ * Build a `json_schema` response format from a zod schema.
+ *
+ * @example
+ * ```typescript
+ * const completion = await client.chat.completions.create({
+ *   model: 'gpt-4o',
+ *   messages,
+ *   response_format: zodResponseFormat(z.object({ city: z.string() }), 'location'),
+ * });
+ * ```
+ */
+export function zodResponseFormat(
+  schema: z.ZodType,
+  name: string,
+  options: { description?: string; strict?: boolean } = {}
+): ChatCompletionResponseFormat {
+  return {
+    type: 'json_schema',
+    json_schema: {
+      name,
+      ...(options.description ? { description: options.description } : {}),
+      schema: toJSONSchema(schema),
+      strict: options.strict ?? true,
+    },
+  };
+}
+
+/**
+ * Define a tool whose arguments are typed and validated by a zod schema.
+ * Use it with `chat.completions.parse` for typed `parsed_arguments`, or with
+ * `runTools`, which reports invalid arguments back to the model.
+ *
+ * @example
+ * ```typescript
+ * const getWeather = zodFunction({
+ *   name: 'getWeather',
+ *   parameters: z.object({ city: z.string() }),
+ *   execute: ({ city }) => weather.lookup(city),
+ * });
+ * ```
+ */
+export function zodFunction<Schema extends z.ZodType>(options: ZodFunctionOptions<Schema>): ZodFunction<Schema> {
+  const { name, description, parameters, execute, strict = true } = options;
+  return {
+    name,
+    description,
+    parameters: toJSONSchema(parameters),
+    schema: parameters,
+    strict,
+    parse: args => parseStructured(parameters, args || '{}', `Arguments of ${name}`),
+    execute,
+  };
+}
+
+/**
+ * Split a parse request into the chat request to send. Used by `chat.completions.parse`.
+ */
+export function buildParseRequest(request: ChatCompletionParseRequest): ChatCompletionRequest {
+  const { schema, schemaName = 'response', strict, tools, ...body } = request;
+  return {
+    ...body,
+    ...(schema ? { response_format: zodResponseFormat(schema, schemaName, { strict }) } : {}),
+    ...(tools ? { tools: tools.map(toToolDefinition) } : {}),
+  };
+}
+
+/**
+ * Validate the content and tool arguments of a completion. Used by `chat.completions.parse`.
+ *
+ * @throws StructuredOutputError if the output was truncated or does not match its schema
+ */
+export function parseChatCompletion<T>(
+  completion: ChatCompletion,
+  request: ChatCompletionParseRequest,
+  metadata?: ErrorMetadata
+): ParsedChatCompletion<T> {
+  const functions = new Map<string, ZodFunction>();
+  for (const tool of request.tools || []) {
+    if (!isToolDefinition(tool)) {
+      functions.set(tool.name, tool);
+    }
+  }
+
+  const choices = completion.choices.map((choice): ParsedChatCompletionChoice<T> => {
+    const message = choice.message;
+    const toolCalls = (message.tool_calls || []) as ChatToolCall[];
+
+    const parsedToolCalls = toolCalls.map((toolCall): ParsedChatToolCall => {
+      const fn = functions.get(toolCall.function.name);
+      if (!fn) {
+        return { ...toolCall };
+      }
+      return {
+        ...toolCall,
+        parsed_arguments: parseStructured(
+          fn.schema,
+          toolCall.function.arguments || '{}',
+          `Arguments of ${fn.name}`,
+          metadata
+        ),
+      };
+    });
+
+    let parsed: T | null = null;
+    if (request.schema && toolCalls.length === 0 && typeof message.content === 'string') {
+      if (choice.finish_reason === 'length') {
+        throw new StructuredOutputError(
+          'Model output was cut off by max_tokens before it matched the schema',
+          message.content,
+          [],
+          metadata
+        );
+      }
+      parsed = parseStructured(request.schema, message.content, 'Model output', metadata) as T;
+    }
+
+    const { tool_calls: _toolCalls, ...rest } = message;
+    return {
+      ...choice,
+      message: {
+        ...rest,
+        ...(message.tool_calls ? { tool_calls: parsedToolCalls } : {}),
+        parsed,
+      },
+    };
+  });
+
+  return { ...completion, choices, parsed: choices[0]?.message.parsed ?? null };
+}
+
+function parseStructured<Schema extends z.ZodType>(
+  schema: Schema,
+  rawText: string,
+  subject: string,
+  metadata?: ErrorMetadata
+): z.infer<Schema> {
+  let value: unknown;
+  try {
+    value = JSON.parse(rawText);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new StructuredOutputError(`${subject} is not valid JSON: ${reason}`, rawText, [], metadata);
+  }
+
+  const result = schema.safeParse(value);
+  if (!result.success) {
+    const issues: ValidationIssue[] = result.error.issues.map(issue => ({ path: issue.path, message: issue.message }));
+    const [first] = issues;
+    const path = first.path.map(String).join('.') || '(root)';
+    throw new StructuredOutputError(
+      `${subject} does not match the schema at ${path}: ${first.message}`,
+      rawText,
+      issues,
+      metadata
+    );
+  }
+  return result.data;
+}
+
+function toJSONSchema(schema: z.ZodType): Record<string, any> {
+  // The API expects a bare schema object
+  const { $schema: _dialect, ...jsonSchema } = z.toJSONSchema(schema) as Record<string, any>;
+  return jsonSchema;
+}
+
+function isToolDefinition(tool: ZodFunction<any> | ToolDefinition): tool is ToolDefinition {
+  return (tool as ToolDefinition).type === 'function' && 'function' in tool;
+}
+
+function toToolDefinition(tool: ZodFunction<any> | ToolDefinition): ToolDefinition {
+  if (isToolDefinition(tool)) {
+    return tool;
+  }
+  return {
+    type: 'function',
+    function: {
+      name: tool.name,
+      ...(tool.description ? { description: tool.description } : {}),
+      parameters: tool.parameters,
+      strict: tool.strict,
+    },
+  };
+}
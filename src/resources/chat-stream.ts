@@ -0,0 +1,381 @@
+/** Stream object returned by streaming chat completions. */
+
+import { MieltoError } from '../exceptions';
+import {
+  ChatCompletion,
+  ChatCompletionChoice,
+  ChatCompletionChunk,
+  ChatCompletionUsage,
+  ChatMessage,
+  ChatRole,
+  ChatToolCall,
+} from '../types/chat';
+
+/** A fragment of assistant text. */
+export interface ContentDeltaEvent {
+  choiceIndex: number;
+  delta: string;
+  /** Text of the choice so far. */
+  snapshot: string;
+}
+
+/** The model started a tool call. */
+export interface ToolCallStartedEvent {
+  choiceIndex: number;
+  toolCallIndex: number;
+  id: string;
+  name: string;
+}
+
+/** A fragment of a tool call's JSON arguments. */
+export interface ToolCallArgumentsDeltaEvent {
+  choiceIndex: number;
+  toolCallIndex: number;
+  id: string;
+  name: string;
+  delta: string;
+  /** Arguments received so far; not valid JSON until the call is done. */
+  snapshot: string;
+}
+
+/** A tool call is complete and ready to execute. */
+export interface ToolCallDoneEvent {
+  choiceIndex: number;
+  toolCallIndex: number;
+  toolCall: ChatToolCall;
+}
+
+/** A choice finished; `message` is the fully assembled assistant message. */
+export interface MessageDoneEvent {
+  choiceIndex: number;
+  message: ChatMessage;
+  /** Tool calls of the message, typed for `MieltoTools.executeToolCalls`. */
+  toolCalls: ChatToolCall[];
+  finishReason: string | null;
+}
+
+/** The stream was read to the end; `completion` is what `finalCompletion()` resolves with. */
+export interface CompletionEvent {
+  completion: ChatCompletion;
+}
+
+/** Events emitted by a `ChatCompletionStream` while it is read. */
+export interface ChatCompletionStreamEvents {
+  'content.delta': ContentDeltaEvent;
+  'tool_call.started': ToolCallStartedEvent;
+  'tool_call.arguments.delta': ToolCallArgumentsDeltaEvent;
+  'tool_call.done': ToolCallDoneEvent;
+  'message.done': MessageDoneEvent;
+  completion: CompletionEvent;
+}
+
+export type ChatCompletionStreamEventType = keyof ChatCompletionStreamEvents;
+
+interface ChoiceSnapshot {
+  role?: ChatRole;
+  content?: string;
+  toolCalls: ChatToolCall[];
+  /** Index of the tool call still receiving arguments. */
+  openToolCall?: number;
+  functionCall?: { name?: string; arguments: string };
+  finishReason?: string | null;
+  logprobs?: Record<string, any> | null;
+  done: boolean;
+}
+
+/**
+ * A streamed chat completion.
+ *
+ * Iterate it for the raw chunks, or await `finalCompletion()` for the assembled
+ * `ChatCompletion`. Content and tool-call fragments are accumulated per choice
+ * and reported through `on()` while the stream is read. A stream can only be
+ * consumed once.
+ *
+ * @example
+ * ```typescript
+ * const stream = await client.chat.completions.create({ model: 'gpt-4o', messages, tools, stream: true });
+ * stream.on('content.delta', ({ delta }) => process.stdout.write(delta));
+ * stream.on('tool_call.done', ({ toolCall }) => console.log('\ncalling', toolCall.function.name));
+ *
+ * const completion = await stream.finalCompletion();
+ * console.log(completion.usage);
+ * ```
+ */
+export class ChatCompletionStream implements AsyncIterable<ChatCompletionChunk> {
+  /** Aborting it cancels the request and ends the stream with an `AbortError`. */
+  public readonly controller: AbortController;
+
+  private chunks: AsyncIterable<ChatCompletionChunk>;
+  private consumed = false;
+  private first?: ChatCompletionChunk;
+  private choices = new Map<number, ChoiceSnapshot>();
+  private usage?: ChatCompletionUsage;
+  private listeners = new Map<ChatCompletionStreamEventType, Set<(event: any) => void>>();
+  private final: Promise<ChatCompletion>;
+  private resolveFinal!: (completion: ChatCompletion) => void;
+  private rejectFinal!: (error: unknown) => void;
+
+  constructor(chunks: AsyncIterable<ChatCompletionChunk>, controller: AbortController) {
+    this.chunks = chunks;
+    this.controller = controller;
+    this.final = new Promise((resolve, reject) => {
+      this.resolveFinal = resolve;
+      this.rejectFinal = reject;
+    });
+    // Only observed through finalCompletion()
+    this.final.catch(() => {});
+  }
+
+  async *[Symbol.asyncIterator](): AsyncIterator<ChatCompletionChunk> {
+    if (this.consumed) {
+      throw new MieltoError('Cannot iterate over a stream that has already been consumed');
+    }
+    this.consumed = true;
+
+    let settled = false;
+    try {
+      for await (const chunk of this.chunks) {
+        this.accumulate(chunk);
+        yield chunk;
+      }
+      settled = true;
+      this.settle();
+    } catch (error) {
+      settled = true;
+      this.rejectFinal(error);
+      throw error;
+    } finally {
+      if (!settled) {
+        // The consumer stopped iterating early
+        this.rejectFinal(new MieltoError('Stream was not read to the end'));
+      }
+    }
+  }
+
+  /**
+   * Listen for an event. Events fire while the stream is iterated or read by
+   * `finalCompletion()`, so register listeners before consuming it.
+   *
+   * @returns A function that removes the listener
+   */
+  on<E extends ChatCompletionStreamEventType>(
+    event: E,
+    listener: (event: ChatCompletionStreamEvents[E]) => void
+  ): () => void {
+    let listeners = this.listeners.get(event);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(event, listeners);
+    }
+    listeners.add(listener);
+    return () => {
+      listeners!.delete(listener);
+    };
+  }
+
+  /**
+   * Read the rest of the stream, if it is not being iterated already, and
+   * resolve with the chunks assembled into a `ChatCompletion`, including
+   * `usage` when the server reported it.
+   *
+   * @throws MieltoError if the stream ends early or carries no chunks
+   */
+  async finalCompletion(): Promise<ChatCompletion> {
+    if (!this.consumed) {
+      for await (const _chunk of this) {
+        // Chunks are accumulated by the iterator
+      }
+    }
+    return this.final;
+  }
+
+  /**
+   * Convert to a byte stream of newline-delimited JSON chunks, e.g. to
+   * forward from a server route to a browser.
+   */
+  toReadableStream(): ReadableStream<Uint8Array> {
+    const encoder = new TextEncoder();
+    let iterator: AsyncIterator<ChatCompletionChunk>;
+    return new ReadableStream<Uint8Array>({
+      start: () => {
+        iterator = this[Symbol.asyncIterator]();
+      },
+      pull: async controller => {
+        try {
+          const { done, value } = await iterator.next();
+          if (done) {
+            controller.close();
+          } else {
+            controller.enqueue(encoder.encode(JSON.stringify(value) + '\n'));
+          }
+        } catch (error) {
+          controller.error(error);
+        }
+      },
+      cancel: async () => {
+        await iterator.return?.();
+      },
+    });
+  }
+
+  private settle(): void {
+    let completion: ChatCompletion;
+    try {
+      // Servers that omit finish_reason still complete their messages
+      for (const [index, choice] of this.choices) {
+        this.finishChoice(index, choice);
+      }
+      completion = this.buildCompletion();
+    } catch (error) {
+      this.rejectFinal(error);
+      return;
+    }
+    this.resolveFinal(completion);
+    // Built again, so listeners cannot change the final completion
+    this.emit('completion', { completion: this.buildCompletion() });
+  }
+
+  private emit<E extends ChatCompletionStreamEventType>(event: E, payload: ChatCompletionStreamEvents[E]): void {
+    for (const listener of this.listeners.get(event) || []) {
+      listener(payload);
+    }
+  }
+
+  private accumulate(chunk: ChatCompletionChunk): void {
+    this.first = this.first || chunk;
+    if (chunk.usage) {
+      this.usage = chunk.usage;
+    }
+
+    for (const { index, delta, finish_reason, logprobs } of chunk.choices || []) {
+      let choice = this.choices.get(index);
+      if (!choice) {
+        choice = { toolCalls: [], done: false };
+        this.choices.set(index, choice);
+      }
+      if (delta?.role) {
+        choice.role = delta.role;
+      }
+      if (typeof delta?.content === 'string' && delta.content) {
+        choice.content = (choice.content ?? '') + delta.content;
+        this.emit('content.delta', { choiceIndex: index, delta: delta.content, snapshot: choice.content });
+      }
+      for (const toolCallDelta of delta?.tool_calls || []) {
+        this.accumulateToolCall(index, choice, toolCallDelta);
+      }
+      if (delta?.function_call) {
+        choice.functionCall = choice.functionCall || { arguments: '' };
+        choice.functionCall.name = choice.functionCall.name || delta.function_call.name;
+        choice.functionCall.arguments += delta.function_call.arguments ?? '';
+      }
+      if (logprobs) {
+        choice.logprobs = logprobs;
+      }
+      if (finish_reason) {
+        choice.finishReason = finish_reason;
+        this.finishChoice(index, choice);
+      }
+    }
+  }
+
+  private accumulateToolCall(choiceIndex: number, choice: ChoiceSnapshot, delta: Record<string, any>): void {
+    const toolCallIndex: number = delta.index ?? choice.toolCalls.length;
+    let toolCall = choice.toolCalls[toolCallIndex];
+    if (!toolCall) {
+      // Models stream tool calls one after another
+      if (choice.openToolCall !== undefined) {
+        this.finishToolCall(choiceIndex, choice);
+      }
+      toolCall = {
+        id: delta.id ?? '',
+        type: 'function',
+        function: { name: delta.function?.name ?? '', arguments: '' },
+      };
+      choice.toolCalls[toolCallIndex] = toolCall;
+      choice.openToolCall = toolCallIndex;
+      this.emit('tool_call.started', {
+        choiceIndex,
+        toolCallIndex,
+        id: toolCall.id,
+        name: toolCall.function.name,
+      });
+    } else if (!toolCall.id && delta.id) {
+      toolCall.id = delta.id;
+    }
+
+    const argumentsDelta: string = delta.function?.arguments ?? '';
+    if (argumentsDelta) {
+      toolCall.function.arguments += argumentsDelta;
+      this.emit('tool_call.arguments.delta', {
+        choiceIndex,
+        toolCallIndex,
+        id: toolCall.id,
+        name: toolCall.function.name,
+        delta: argumentsDelta,
+        snapshot: toolCall.function.arguments,
+      });
+    }
+  }
+
+  private finishToolCall(choiceIndex: number, choice: ChoiceSnapshot): void {
+    const toolCallIndex = choice.openToolCall!;
+    choice.openToolCall = undefined;
+    this.emit('tool_call.done', { choiceIndex, toolCallIndex, toolCall: copyToolCall(choice.toolCalls[toolCallIndex]) });
+  }
+
+  private finishChoice(choiceIndex: number, choice: ChoiceSnapshot): void {
+    if (choice.done) {
+      return;
+    }
+    choice.done = true;
+    if (choice.openToolCall !== undefined) {
+      this.finishToolCall(choiceIndex, choice);
+    }
+    const message = buildMessage(choice);
+    this.emit('message.done', {
+      choiceIndex,
+      message,
+      toolCalls: message.tool_calls || [],
+      finishReason: choice.finishReason ?? null,
+    });
+  }
+
+  private buildCompletion(): ChatCompletion {
+    if (!this.first) {
+      throw new MieltoError('Stream ended without any chunks');
+    }
+
+    const choices: ChatCompletionChoice[] = [...this.choices.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([index, choice]) => ({
+        index,
+        message: buildMessage(choice),
+        finish_reason: choice.finishReason ?? null,
+        ...(choice.logprobs ? { logprobs: choice.logprobs } : {}),
+      }));
+
+    return {
+      id: this.first.id,
+      object: 'chat.completion',
+      created: this.first.created,
+      model: this.first.model,
+      choices,
+      ...(this.usage ? { usage: this.usage } : {}),
+    };
+  }
+}
+
+function copyToolCall(toolCall: ChatToolCall): ChatToolCall {
+  return { ...toolCall, function: { ...toolCall.function } };
+}
+
+function buildMessage(choice: ChoiceSnapshot): ChatMessage & { tool_calls?: ChatToolCall[] } {
+  // Copies, so listeners cannot change the final completion
+  const toolCalls = choice.toolCalls.filter(Boolean).map(copyToolCall);
+  return {
+    role: choice.role || 'assistant',
+    content: choice.content,
+    ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+    ...(choice.functionCall ? { function_call: { ...choice.functionCall } } : {}),
+  };
+}
@@ -0,0 +1,206 @@
+/** Automatic tool-calling loop for chat completions. */
+
+import type { RequestOptions } from '../clients/base';
+import type { Completions } from './chat';
+import type { ChatCompletionStream } from './chat-stream';
+import {
+  ChatCompletion,
+  ChatCompletionRequest,
+  ChatCompletionUsage,
+  ChatMessage,
+  ChatToolCall,
+  ToolDefinition,
+} from '../types/chat';
+
+/**
+ * Tools `runTools` can call, such as a `MieltoTools` instance.
+ */
+export interface RunnableToolSet {
+  getOpenAIFunctions(): Array<{ name: string; description?: string; parameters?: Record<string, any> }>;
+  getExecutors(): Record<string, (args: any) => Promise<any>>;
+}
+
+/** A function the model can call, with its implementation. */
+export interface RunnableFunction<Args = any> {
+  name: string;
+  description?: string;
+  /** JSON schema of the arguments. */
+  parameters: Record<string, any>;
+  /**
+   * Parse the model's JSON arguments. Throw to report invalid arguments to the
+   * model instead of calling `execute`. Defaults to `JSON.parse`.
+   */
+  parse?: (args: string) => Args;
+  /** Implementation called by `runTools`; calls to a function without one are reported to the model as failed. */
+  execute?: (args: Args) => unknown | Promise<unknown>;
+}
+
+/** One completion of a `runTools` loop and the tool calls it made. */
+export interface RunToolsStep {
+  /** 1-based step number. */
+  step: number;
+  completion: ChatCompletion;
+  /** Assistant message of the step. */
+  message: ChatMessage;
+  toolCalls: ChatToolCall[];
+  /** Tool messages sent back to the model, in the order of `toolCalls`. */
+  toolResults: ChatMessage[];
+}
+
+export interface ChatCompletionRunToolsRequest extends Omit<ChatCompletionRequest, 'tools' | 'stream'> {
+  tools: RunnableToolSet | RunnableFunction[];
+  /** Maximum number of completions. The last one may not call tools. Defaults to 10. */
+  maxSteps?: number;
+  /** Stream each completion; pair with `onStream` to show progress. */
+  stream?: boolean;
+  /** Execute the tool calls of a step concurrently. Defaults to true. */
+  parallelToolCalls?: boolean;
+  /** Called with each step once its tool calls have run. */
+  onStep?: (step: RunToolsStep) => void | Promise<void>;
+  /** Called before a tool call is executed. */
+  onToolCall?: (toolCall: ChatToolCall, step: number) => void | Promise<void>;
+  /** Called with the stream of each step, before it is read, when `stream` is set. */
+  onStream?: (stream: ChatCompletionStream, step: number) => void;
+}
+
+export interface ChatCompletionRunResult {
+  /** The last completion, which answers without tool calls unless `maxSteps` was reached. */
+  completion: ChatCompletion;
+  /** The request's messages followed by every assistant and tool message. */
+  messages: ChatMessage[];
+  steps: RunToolsStep[];
+  /** Token usage summed over all steps that reported it. */
+  usage: ChatCompletionUsage;
+}
+
+const DEFAULT_MAX_STEPS = 10;
+
+/**
+ * Drive the completion → tool execution loop. Used by `chat.completions.runTools`.
+ */
+export async function runTools(
+  completions: Completions,
+  request: ChatCompletionRunToolsRequest,
+  requestOptions?: RequestOptions
+): Promise<ChatCompletionRunResult> {
+  const {
+    tools,
+    maxSteps = DEFAULT_MAX_STEPS,
+    stream,
+    parallelToolCalls = true,
+    onStep,
+    onToolCall,
+    onStream,
+    ...body
+  } = request;
+  const functions = getRunnableFunctions(tools);
+  const definitions: ToolDefinition[] = functions.map(fn => ({
+    type: 'function',
+    function: { name: fn.name, description: fn.description, parameters: fn.parameters },
+  }));
+
+  const messages: ChatMessage[] = [...(body.messages as ChatMessage[])];
+  const steps: RunToolsStep[] = [];
+  const usage: ChatCompletionUsage = { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
+
+  for (let step = 1; ; step++) {
+    const stepRequest: ChatCompletionRequest = {
+      ...body,
+      messages: [...messages],
+      tools: definitions,
+      // Ask for an answer once no steps are left to run tools in
+      ...(step === maxSteps ? { tool_choice: 'none' } : {}),
+    };
+
+    let completion: ChatCompletion;
+    if (stream) {
+      const chatStream = await completions.create(
+        // Usage arrives only in the final chunk, and only when requested
+        { ...stepRequest, stream: true, stream_options: stepRequest.stream_options ?? { include_usage: true } },
+        requestOptions
+      );
+      onStream?.(chatStream, step);
+      completion = await chatStream.finalCompletion();
+    } else {
+      completion = await completions.create({ ...stepRequest, stream: false }, requestOptions);
+    }
+    if (completion.usage) {
+      usage.prompt_tokens += completion.usage.prompt_tokens;
+      usage.completion_tokens += completion.usage.completion_tokens;
+      usage.total_tokens += completion.usage.total_tokens;
+    }
+
+    const message: ChatMessage = completion.choices[0]?.message || { role: 'assistant', content: '' };
+    messages.push(message);
+    const toolCalls = (message.tool_calls || []) as ChatToolCall[];
+
+    const execute = async (toolCall: ChatToolCall): Promise<ChatMessage> => {
+      await onToolCall?.(toolCall, step);
+      return {
+        role: 'tool',
+        tool_call_id: toolCall.id,
+        content: await callFunction(functions, toolCall),
+      };
+    };
+    let toolResults: ChatMessage[] = [];
+    if (parallelToolCalls) {
+      toolResults = await Promise.all(toolCalls.map(execute));
+    } else {
+      for (const toolCall of toolCalls) {
+        toolResults.push(await execute(toolCall));
+      }
+    }
+    messages.push(...toolResults);
+
+    const runStep: RunToolsStep = { step, completion, message, toolCalls, toolResults };
+    steps.push(runStep);
+    await onStep?.(runStep);
+
+    if (toolCalls.length === 0 || step >= maxSteps) {
+      return { completion, messages, steps, usage };
+    }
+  }
+}
+
+function getRunnableFunctions(tools: RunnableToolSet | RunnableFunction[]): RunnableFunction[] {
+  if (Array.isArray(tools)) {
+    return tools;
+  }
+  const executors = tools.getExecutors();
+  return tools.getOpenAIFunctions().map(fn => ({
+    name: fn.name,
+    description: fn.description,
+    parameters: fn.parameters || { type: 'object', properties: {} },
+    execute: executors[fn.name],
+  }));
+}
+
+/**
+ * Run a tool call and serialize its result. Failures are returned to the model
+ * in the same shape as `MieltoTools.executeToolCalls` results.
+ */
+async function callFunction(functions: RunnableFunction[], toolCall: ChatToolCall): Promise<string> {
+  const fn = functions.find(candidate => candidate.name === toolCall.function.name);
+  if (!fn) {
+    return JSON.stringify({ success: false, error: `Unknown tool: ${toolCall.function.name}` });
+  }
+  if (!fn.execute) {
+    return JSON.stringify({ success: false, error: `Tool has no implementation: ${toolCall.function.name}` });
+  }
+
+  let args: unknown;
+  try {
+    args = fn.parse ? fn.parse(toolCall.function.arguments) : JSON.parse(toolCall.function.arguments || '{}');
+  } catch (error) {
+    return JSON.stringify({
+      success: false,
+      error: `Failed to parse tool arguments: ${error instanceof Error ? error.message : String(error)}`,
+    });
+  }
+
+  try {
+    return JSON.stringify((await fn.execute(args)) ?? null);
+  } catch (error) {
+    return JSON.stringify({ success: false, error: error instanceof Error ? error.message : String(error) });
+  }
+}
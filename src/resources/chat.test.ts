@@ -0,0 +1,133 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Mielto } from '../clients/mielto';
+import { Transport } from '../clients/transport';
+import { FakeMieltoServer } from '../testing';
+import { ConnectionError, RateLimitError, ServerError } from '../exceptions';
+import { ChatCompletionChunk } from '../types/chat';
+
+function chunk(content: string, finishReason: string | null = null): string {
+  const data: ChatCompletionChunk = {
+    id: 'chatcmpl_1',
+    object: 'chat.completion.chunk',
+    created: 1,
+    model: 'gpt-4o',
+    choices: [{ index: 0, delta: { role: 'assistant', content }, finish_reason: finishReason }],
+  };
+  return `data: ${JSON.stringify(data)}\n\n`;
+}
+
+/** A client whose chat completions stream `events` as the response body. */
+function clientStreaming(events: string[]): Mielto {
+  const encoder = new TextEncoder();
+  const transport: Transport = {
+    async request() {
+      return {
+        status: 200,
+        headers: { 'content-type': 'text/event-stream' },
+        body: new ReadableStream({
+          start(controller) {
+            for (const event of events) {
+              controller.enqueue(encoder.encode(event));
+            }
+            controller.close();
+          },
+        }),
+      };
+    },
+  };
+  return new Mielto({ apiKey: 'test', transport, maxRetries: 0 });
+}
+
+async function streamChat(client: Mielto) {
+  return client.chat.completions.create({
+    model: 'gpt-4o',
+    messages: [{ role: 'user', content: 'Hi' }],
+    stream: true,
+  });
+}
+
+describe('chat completion streams', () => {
+  it('assembles chunks up to [DONE]', async () => {
+    const stream = await streamChat(clientStreaming([chunk('Hel'), chunk('lo', 'stop'), 'data: [DONE]\n\n']));
+    const completion = await stream.finalCompletion();
+    assert.equal(completion.choices[0].message.content, 'Hello');
+    assert.equal(completion.choices[0].finish_reason, 'stop');
+  });
+
+  it('ignores events after [DONE]', async () => {
+    const stream = await streamChat(clientStreaming([chunk('Hi', 'stop'), 'data: [DONE]\n\n', chunk('!')]));
+    const chunks: ChatCompletionChunk[] = [];
+    for await (const chunk of stream) {
+      chunks.push(chunk);
+    }
+    assert.equal(chunks.length, 1);
+  });
+
+  it('raises ConnectionError when the stream closes before [DONE]', async () => {
+    const stream = await streamChat(clientStreaming([chunk('Hel'), chunk('lo', 'stop')]));
+    const chunks: ChatCompletionChunk[] = [];
+    await assert.rejects(async () => {
+      for await (const chunk of stream) {
+        chunks.push(chunk);
+      }
+    }, ConnectionError);
+    assert.equal(chunks.length, 2);
+    await assert.rejects(stream.finalCompletion(), ConnectionError);
+  });
+
+  it('raises the mapped error for an `error` event', async () => {
+    const stream = await streamChat(
+      clientStreaming([
+        chunk('Hel'),
+        'event: error\ndata: {"error":{"message":"Slow down","type":"rate_limit_error"}}\n\n',
+      ])
+    );
+    await assert.rejects(stream.finalCompletion(), (error: unknown) => {
+      assert.ok(error instanceof RateLimitError);
+      assert.equal(error.message, 'Slow down');
+      return true;
+    });
+  });
+
+  it('raises ServerError for an error payload without an event type', async () => {
+    const stream = await streamChat(clientStreaming([chunk('Hel'), 'data: {"error":{"message":"Upstream failed"}}\n\n']));
+    await assert.rejects(stream.finalCompletion(), (error: unknown) => {
+      assert.ok(error instanceof ServerError);
+      assert.equal(error.message, 'Upstream failed');
+      return true;
+    });
+  });
+
+  describe('with a usage tracker', () => {
+    it('requests usage and records the final chunk without yielding it', async () => {
+      const server = new FakeMieltoServer();
+      const client = server.createClient({ usageTracker: true });
+      const stream = await streamChat(client);
+      const chunks: ChatCompletionChunk[] = [];
+      for await (const chunk of stream) {
+        chunks.push(chunk);
+      }
+
+      assert.deepEqual(server.requests.at(-1)?.body.stream_options, { include_usage: true });
+      assert.ok(chunks.length > 0);
+      assert.ok(chunks.every(chunk => chunk.choices.length > 0));
+      assert.ok(client.usageTracker!.snapshot().totals.totalTokens > 0);
+    });
+
+    it('yields the usage chunk when the caller sets stream_options', async () => {
+      const server = new FakeMieltoServer();
+      const client = server.createClient({ usageTracker: true });
+      const stream = await client.chat.completions.create({
+        model: 'gpt-4o',
+        messages: [{ role: 'user', content: 'Hi' }],
+        stream: true,
+        stream_options: { include_usage: true },
+      });
+      const completion = await stream.finalCompletion();
+
+      assert.ok(completion.usage);
+      assert.equal(client.usageTracker!.snapshot().totals.totalTokens, completion.usage.total_tokens);
+    });
+  });
+});
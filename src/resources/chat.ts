@@ -1,20 +1,66 @@
 /** Chat completion resources for Mielto API. */
 
-import { BaseClient } from '../clients/base';
+import { BaseClient, RequestOptions } from '../clients/base';
+import { APIPromise, getRequestId } from '../clients/api-promise';
+import { readServerSentEvents } from '../clients/sse';
+import { ChatCompletionStream } from './chat-stream';
+import { runTools, ChatCompletionRunToolsRequest, ChatCompletionRunResult } from './chat-tools';
+import {
+  buildParseRequest,
+  parseChatCompletion,
+  ChatCompletionParseRequest,
+  ParsedChatCompletion,
+} from './chat-parse';
+import { Conversation, ConversationOptions } from './chat-conversation';
+import { MieltoError, ConnectionError } from '../exceptions';
+import { withDefaults } from '../utils';
+import type { z } from 'zod';
 import {
   ChatCompletion,
   ChatCompletionChunk,
   ChatCompletionRequest,
+  ChatCompletionStreamingRequest,
+  ChatCompletionNonStreamingRequest,
 } from '../types/chat';
-// @ts-ignore - axios types should be available from dependencies
-import axios from 'axios';
+
+/** HTTP status equivalent to the `type` or `code` of an in-stream error. */
+const STREAM_ERROR_STATUS: Record<string, number> = {
+  invalid_request_error: 400,
+  authentication_error: 401,
+  permission_error: 403,
+  not_found_error: 404,
+  rate_limit_error: 429,
+  rate_limit_exceeded: 429,
+  server_error: 500,
+  api_error: 500,
+  overloaded_error: 503,
+  CREDIT_LIMIT_EXCEEDED: 402,
+  OVERAGE_LIMIT_EXCEEDED: 402,
+};
 
 export class Completions {
   constructor(private client: BaseClient) {}
 
-  async create(
-    request: ChatCompletionRequest
-  ): Promise<ChatCompletion | AsyncIterable<ChatCompletionChunk>> {
+  /**
+   * Create a chat completion. With `stream: true` it resolves to a
+   * `ChatCompletionStream` once the response headers arrive.
+   */
+  create(
+    request: ChatCompletionStreamingRequest,
+    requestOptions?: RequestOptions
+  ): APIPromise<ChatCompletionStream>;
+  create(
+    request: ChatCompletionNonStreamingRequest,
+    requestOptions?: RequestOptions
+  ): APIPromise<ChatCompletion>;
+  create(
+    request: ChatCompletionRequest,
+    requestOptions?: RequestOptions
+  ): APIPromise<ChatCompletion | ChatCompletionStream>;
+  create(
+    request: ChatCompletionRequest,
+    requestOptions?: RequestOptions
+  ): APIPromise<ChatCompletion | ChatCompletionStream> {
     const payload: any = {
       model: request.model,
       messages: request.messages,
@@ -25,6 +71,7 @@ export class Completions {
     if (request.top_p !== undefined) payload.top_p = request.top_p;
     if (request.n !== undefined) payload.n = request.n;
     if (request.stream !== undefined) payload.stream = request.stream;
+    if (request.stream_options !== undefined) payload.stream_options = request.stream_options;
     if (request.stop !== undefined) payload.stop = request.stop;
     if (request.max_tokens !== undefined) payload.max_tokens = request.max_tokens;
     if (request.presence_penalty !== undefined) payload.presence_penalty = request.presence_penalty;
@@ -38,7 +85,13 @@ export class Completions {
     if (request.logprobs !== undefined) payload.logprobs = request.logprobs;
     if (request.top_logprobs !== undefined) payload.top_logprobs = request.top_logprobs;
 
-    // Add Mielto-specific parameters
+    // Add Mielto-specific parameters, falling back to the scoped client's defaults
+    const defaults = this.client.defaults;
+    request = withDefaults(request, {
+      user_id: defaults.userId,
+      workspace_id: defaults.workspaceId,
+      collection_ids: defaults.collectionIds,
+    });
     if (request.user_id !== undefined) payload.user_id = request.user_id;
     if (request.conversation_id !== undefined) payload.conversation_id = request.conversation_id;
     if (request.session_id !== undefined) payload.session_id = request.session_id;
@@ -46,59 +99,189 @@ export class Completions {
     if (request.collection_ids !== undefined) payload.collection_ids = request.collection_ids;
 
     if (request.stream) {
-      return this.createStream(payload);
+      // The usage tracker needs the token counts only sent in the final chunk;
+      // that chunk has no `choices`, so it is recorded but not yielded
+      const trackUsage = Boolean(this.client.usageTracker) && payload.stream_options === undefined;
+      if (trackUsage) {
+        payload.stream_options = { include_usage: true };
+      }
+      // Aborting the stream's controller, or the caller's signal, cancels the request
+      const controller = new AbortController();
+      const signal = requestOptions?.signal;
+      const onAbort = () => controller.abort();
+      // A long-lived signal must not keep settled streams alive
+      const unlink = () => signal?.removeEventListener('abort', onAbort);
+      if (signal?.aborted) {
+        controller.abort();
+      } else {
+        signal?.addEventListener('abort', onAbort, { once: true });
+      }
+      const streamOptions: RequestOptions = { ...requestOptions, signal: controller.signal };
+      const response = this.client.stream('POST', 'chat/completions', { data: payload }, streamOptions);
+      response.withResponse().catch(unlink);
+      return response._thenUnwrap((body, { headers }) =>
+        new ChatCompletionStream(this.readStream(body, payload, headers, streamOptions, trackUsage, unlink), controller)
+      );
     } else {
-      const response = await this.client.post<ChatCompletion>('chat/completions', payload);
-      return response;
+      return this.client.post<ChatCompletion>('chat/completions', payload, undefined, requestOptions);
     }
   }
 
-  private async *createStream(payload: any): AsyncIterable<ChatCompletionChunk> {
-    // Note: Streaming requires Node.js environment with axios stream support
-    // For browser environments, consider using fetch API with ReadableStream
-    const url = this.client['buildUrl']('chat/completions');
-    const headers = this.client['getHeaders']();
+  /**
+   * Call the model, execute the tools it asks for, send back the results and
+   * repeat until it answers without tool calls or `maxSteps` is reached.
+   *
+   * @param request - Chat request with runnable `tools`, such as a `MieltoTools` instance
+   * @param requestOptions - Per-call options applied to every completion
+   * @returns The final completion, the full message transcript and each step
+   *
+   * @example
+   * ```typescript
+   * const { completion, messages } = await client.chat.completions.runTools({
+   *   model: 'gpt-4o',
+   *   messages: [{ role: 'user', content: 'What did I say about Python?' }],
+   *   tools: new MieltoTools({ userId: 'user_123' }),
+   *   maxSteps: 5,
+   *   onToolCall: toolCall => console.log('calling', toolCall.function.name),
+   * });
+   * ```
+   */
+  runTools(
+    request: ChatCompletionRunToolsRequest,
+    requestOptions?: RequestOptions
+  ): Promise<ChatCompletionRunResult> {
+    return runTools(this, request, requestOptions);
+  }
+
+  /**
+   * Create a completion whose reply must match a zod schema, and validate it.
+   *
+   * The schema is sent as a `json_schema` response format and the reply is
+   * returned as a typed `parsed` value. Arguments of `zodFunction` tools are
+   * validated into `parsed_arguments` the same way.
+   *
+   * @param request - Chat request with a zod `schema` and/or `zodFunction` tools
+   * @param requestOptions - Per-call options
+   * @returns The completion with `parsed` set on each message and at the top level
+   * @throws StructuredOutputError if the reply is not valid JSON, does not match the
+   *   schema, or was cut off by `max_tokens`; `rawText` holds the model's output
+   *
+   * @example
+   * ```typescript
+   * const completion = await client.chat.completions.parse({
+   *   model: 'gpt-4o',
+   *   messages: [{ role: 'user', content: 'Extract the event: lunch with Ana on Friday' }],
+   *   schema: z.object({ title: z.string(), day: z.string() }),
+   * });
+   * console.log(completion.parsed?.day);
+   * ```
+   */
+  parse<Schema extends z.ZodType = z.ZodType>(
+    request: ChatCompletionParseRequest<Schema>,
+    requestOptions?: RequestOptions
+  ): APIPromise<ParsedChatCompletion<z.infer<Schema>>> {
+    return this.create({ ...buildParseRequest(request), stream: false }, requestOptions)._thenUnwrap(
+      (completion, response) =>
+        parseChatCompletion<z.infer<Schema>>(completion, request, {
+          requestId: response.requestId,
+          headers: response.headers,
+        })
+    );
+  }
 
+  private async *readStream(
+    body: ReadableStream<Uint8Array>,
+    payload: any,
+    headers: Record<string, string>,
+    requestOptions?: RequestOptions,
+    skipUsageChunk = false,
+    onSettled?: () => void
+  ): AsyncIterable<ChatCompletionChunk> {
     try {
-      const response = await axios({
-        method: 'POST',
-        url,
-        data: payload,
-        headers,
-        responseType: 'stream',
-        timeout: (this.client as any).timeout,
-      });
-
-      const stream = response.data;
-      let buffer = '';
-
-      for await (const chunk of stream) {
-        buffer += chunk.toString();
-        const lines = buffer.split('\n');
-        buffer = lines.pop() || '';
-
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            const data = line.slice(6).trim();
-            if (data === '[DONE]') {
-              return;
-            }
-            try {
-              const chunkData = JSON.parse(data);
-              yield chunkData as ChatCompletionChunk;
-            } catch (e) {
-              // Skip invalid JSON
-              continue;
-            }
-          }
-        }
+      yield* this.readChunks(body, payload, headers, requestOptions, skipUsageChunk);
+    } finally {
+      onSettled?.();
+    }
+  }
+
+  private async *readChunks(
+    body: ReadableStream<Uint8Array>,
+    payload: any,
+    headers: Record<string, string>,
+    requestOptions?: RequestOptions,
+    skipUsageChunk = false
+  ): AsyncIterable<ChatCompletionChunk> {
+    const metadata = { requestId: getRequestId(headers), headers };
+
+    for await (const event of readServerSentEvents(body, requestOptions?.signal)) {
+      // Other event types, such as pings, carry no completion data
+      if (event.event !== 'message' && event.event !== 'error') {
+        continue;
       }
-    } catch (error: any) {
-      if (axios.isAxiosError && axios.isAxiosError(error)) {
-        (this.client as any).handleResponseError(error);
+      if (event.data === '[DONE]') {
+        return;
       }
-      throw error;
+
+      let chunkData: any;
+      try {
+        chunkData = JSON.parse(event.data);
+      } catch {
+        throw new MieltoError(
+          `Failed to parse chat completion stream event: ${event.data.slice(0, 200)}`,
+          undefined,
+          undefined,
+          metadata
+        );
+      }
+      if (event.event === 'error' || chunkData?.error) {
+        throw this.createStreamError(chunkData, headers);
+      }
+
+      this.client.validateResponse('chat.completions.chunk', chunkData);
+      if (chunkData.usage) {
+        this.client.recordUsage('chat.completions.create', chunkData, { data: payload }, requestOptions);
+      }
+      if (skipUsageChunk && chunkData.usage && chunkData.choices?.length === 0) {
+        continue;
+      }
+      yield chunkData as ChatCompletionChunk;
     }
+
+    throw new ConnectionError(
+      'Chat completion stream closed before [DONE]; the response may be incomplete',
+      undefined,
+      undefined,
+      metadata
+    );
+  }
+
+  /**
+   * Map an error sent inside the stream, e.g. `{"error": {"message": ..., "type": "rate_limit_error"}}`,
+   * to the MieltoError subclass for the equivalent HTTP status.
+   */
+  private createStreamError(payload: any, headers: Record<string, string>): MieltoError {
+    const error = payload?.error && typeof payload.error === 'object'
+      ? payload.error
+      : { message: payload?.error ?? payload?.detail ?? payload?.message };
+    const status =
+      Number(error.status ?? error.status_code) ||
+      STREAM_ERROR_STATUS[error.type] ||
+      STREAM_ERROR_STATUS[error.code] ||
+      500;
+    const message = typeof error.message === 'string' && error.message
+      ? error.message
+      : 'Chat completion stream failed';
+
+    return this.client.createResponseError({
+      status,
+      headers,
+      data: {
+        ...payload,
+        detail: message,
+        // Only Mielto's upper-case codes become `MieltoError.code`; provider codes stay in `error`
+        error_code: typeof error.code === 'string' && /^[A-Z_]+$/.test(error.code) ? error.code : undefined,
+      },
+    });
   }
 }
 
@@ -108,5 +291,13 @@ export class Chat {
   constructor(client: BaseClient) {
     this.completions = new Completions(client);
   }
+
+  /**
+   * Start a conversation that keeps its history, IDs and token budget.
+   * Restore a saved one with `Conversation.fromJSON(client.chat, state)`.
+   */
+  conversation(options: ConversationOptions): Conversation {
+    return new Conversation(this.completions, options);
+  }
 }
 
@@ -1,6 +1,8 @@
 /** Collection resource for interacting with the Mielto Collections API. */
 
-import { BaseClient } from '../clients/base';
+import { BaseClient, RequestOptions } from '../clients/base';
+import { APIPromise, APIResponse } from '../clients/api-promise';
+import { AbortError } from '../exceptions';
 import {
   Collection,
   CollectionCreate,
@@ -19,7 +21,17 @@ import { detectMimetypeFromFile, detectMimetypeFromBuffer } from '../utils';
 export class Collections {
   constructor(private client: BaseClient) {}
 
-  async create(collectionData: CollectionCreate | Record<string, any>): Promise<Collection> {
+  create(
+    collectionData: CollectionCreate | Record<string, any>,
+    requestOptions?: RequestOptions
+  ): APIPromise<Collection> {
+    return APIPromise.from(() => this._create(collectionData, requestOptions));
+  }
+
+  private async _create(
+    collectionData: CollectionCreate | Record<string, any>,
+    requestOptions?: RequestOptions
+  ): Promise<APIResponse<Collection>> {
     const payload = collectionData;
     if (payload.store_type) {
       const validStoreTypes = Object.values(CollectionStoreType);
@@ -29,16 +41,16 @@ export class Collections {
     } else {
       payload.store_type = CollectionStoreType.PGVECTOR;
     }
-    return this.client.post<Collection>('/collections', payload);
+    return this.client.post<Collection>('/collections', payload, undefined, requestOptions).withResponse();
   }
-  async list(options: {
+  list(options: {
     skip?: number;
     limit?: number;
     status?: string;
     visibility?: string;
     search?: string;
     tags?: string;
-  } = {}): Promise<{ data: Collection[]; total_count: number; page?: number | null; limit?: number | null }> {
+  } = {}, requestOptions?: RequestOptions): APIPromise<{ data: Collection[]; total_count: number; page?: number | null; limit?: number | null }> {
     const params: Record<string, any> = {
       skip: options.skip || 0,
       limit: options.limit || 100,
@@ -48,25 +60,39 @@ export class Collections {
     if (options.search) params.search = options.search;
     if (options.tags) params.tags = options.tags;
 
-    return this.client.get<{ data: Collection[]; total_count: number; page?: number | null; limit?: number | null }>('/collections', params);
+    return this.client.get<{ data: Collection[]; total_count: number; page?: number | null; limit?: number | null }>('/collections', params, undefined, requestOptions);
   }
 
-  async update(collectionId: string, collectionData: CollectionUpdate | Record<string, any>): Promise<Collection> {
+  update(
+    collectionId: string,
+    collectionData: CollectionUpdate | Record<string, any>,
+    requestOptions?: RequestOptions
+  ): APIPromise<Collection> {
     const payload = collectionData;
-    return this.client.put<Collection>(`/collections/${collectionId}`, payload);
+    return this.client.put<Collection>(`/collections/${collectionId}`, payload, undefined, requestOptions);
   }
 
-  async delete(collectionId: string): Promise<{ message: string; collection_id: string; status: string; job_id?: string }> {
+  delete(
+    collectionId: string,
+    requestOptions?: RequestOptions
+  ): APIPromise<{ message: string; collection_id: string; status: string; job_id?: string }> {
     // Collections deletion is async and returns 202 Accepted with status info
-    return this.client.delete<{ message: string; collection_id: string; status: string; job_id?: string }>(`/collections/${collectionId}`);
+    return this.client.delete<{ message: string; collection_id: string; status: string; job_id?: string }>(
+      `/collections/${collectionId}`,
+      undefined,
+      requestOptions
+    );
   }
 
-  async search(searchRequest: SearchRequest | Record<string, any>): Promise<SearchResponse> {
+  search(
+    searchRequest: SearchRequest | Record<string, any>,
+    requestOptions?: RequestOptions
+  ): APIPromise<SearchResponse> {
     const payload = searchRequest;
-    return this.client.post<SearchResponse>('/collections/search', payload);
+    return this.client.post<SearchResponse>('/collections/search', payload, undefined, { idempotent: true, ...requestOptions });
   }
 
-  async insert(options: {
+  insert(options: {
     collection_id: string;
     content?: string;
     file_path?: string;
@@ -79,7 +105,14 @@ export class Collections {
     mimetype?: string;
     ingest?: boolean;
     reader?: string | ReaderProviderConfig;
-  }): Promise<UploadResponse> {
+  }, requestOptions?: RequestOptions): APIPromise<UploadResponse> {
+    return APIPromise.from(() => this._insert(options, requestOptions));
+  }
+
+  private async _insert(
+    options: Parameters<Collections['insert']>[0],
+    requestOptions?: RequestOptions
+  ): Promise<APIResponse<UploadResponse>> {
     const filesList: FileUpload[] = [];
 
     // Handle browser File object
@@ -218,7 +251,7 @@ export class Collections {
       }
     });
 
-    return this.client.post<UploadResponse>('/upload', payload);
+    return this.client.post<UploadResponse>('/upload', payload, undefined, requestOptions).withResponse();
   }
 
   async insertDirectory(options: {
@@ -233,7 +266,7 @@ export class Collections {
     batch_size?: number;
     show_progress?: boolean;
     use_gitignore?: boolean;
-  }): Promise<UploadResponse[]> {
+  }, requestOptions?: RequestOptions): Promise<UploadResponse[]> {
     try {
       // Dynamic import for Node.js modules (only works in Node.js)
       // This will fail in browser environments, which is expected
@@ -285,13 +318,13 @@ export class Collections {
 
       if (filesToUpload.length === 0) {
         if (showProgress) {
-          console.log('No files found to upload');
+          this.client.logger.info('No files found to upload');
         }
         return [];
       }
 
       if (showProgress) {
-        console.log(`Found ${filesToUpload.length} file(s) to upload`);
+        this.client.logger.info(`Found ${filesToUpload.length} file(s) to upload`);
       }
 
       // Upload in batches
@@ -299,11 +332,15 @@ export class Collections {
       const totalBatches = Math.ceil(filesToUpload.length / batchSize);
 
       for (let i = 0; i < filesToUpload.length; i += batchSize) {
+        if (requestOptions?.signal?.aborted) {
+          throw new AbortError();
+        }
+
         const batch = filesToUpload.slice(i, i + batchSize);
         const batchNumber = Math.floor(i / batchSize) + 1;
 
         if (showProgress) {
-          console.log(`Uploading batch ${batchNumber}/${totalBatches} (${batch.length} file(s))`);
+          this.client.logger.info(`Uploading batch ${batchNumber}/${totalBatches} (${batch.length} file(s))`);
         }
 
         // Prepare files for this batch
@@ -361,7 +398,7 @@ export class Collections {
             });
           } catch (error: any) {
             if (showProgress) {
-              console.warn(`Failed to read file "${filePath}": ${error.message}`);
+              this.client.logger.warn(`Failed to read file "${filePath}": ${error.message}`);
             }
             // Continue with other files in the batch
           }
@@ -369,7 +406,7 @@ export class Collections {
 
         if (filesList.length === 0) {
           if (showProgress) {
-            console.warn(`Batch ${batchNumber} had no valid files to upload`);
+            this.client.logger.warn(`Batch ${batchNumber} had no valid files to upload`);
           }
           continue;
         }
@@ -393,18 +430,21 @@ export class Collections {
         });
 
         try {
-          const response = await this.client.post<UploadResponse>('/upload', payload);
+          const response = await this.client.post<UploadResponse>('/upload', payload, undefined, requestOptions);
           responses.push(response);
         } catch (error: any) {
+          if (error instanceof AbortError) {
+            throw error;
+          }
           if (showProgress) {
-            console.error(`Failed to upload batch ${batchNumber}: ${error.message}`);
+            this.client.logger.error(`Failed to upload batch ${batchNumber}: ${error.message}`);
           }
           // Continue with next batch
         }
       }
 
       if (showProgress) {
-        console.log(`Completed: ${responses.length}/${totalBatches} batch(es) uploaded successfully`);
+        this.client.logger.info(`Completed: ${responses.length}/${totalBatches} batch(es) uploaded successfully`);
       }
 
       return responses;
@@ -559,7 +599,7 @@ export class Collections {
           // File doesn't exist or can't be read, continue to parent
           if (error.code !== 'ENOENT' && error.code !== 'EACCES' && error.code !== 'EPERM') {
             // Log other errors but continue
-            console.warn(`Failed to read .gitignore at ${gitignorePath}: ${error.message}`);
+            this.client.logger.warn(`Failed to read .gitignore at ${gitignorePath}: ${error.message}`);
           }
         }
 
@@ -571,19 +611,19 @@ export class Collections {
       }
     } catch (error: any) {
       // If any error occurs, return null (no gitignore)
-      console.warn(`Failed to load .gitignore: ${error.message}`);
+      this.client.logger.warn(`Failed to load .gitignore: ${error.message}`);
     }
 
     return null;
   }
 
-  async getChunks(options: {
+  getChunks(options: {
     collection_id: string;
     limit?: number;
     cursor?: string;
     include_embedding?: boolean;
     content_id?: string;
-  }): Promise<ChunksResponse> {
+  }, requestOptions?: RequestOptions): APIPromise<ChunksResponse> {
     const params: Record<string, any> = {
       limit: options.limit || 50,
       include_embedding: options.include_embedding || false,
@@ -595,7 +635,7 @@ export class Collections {
       'X-Collection-Id': options.collection_id,
     };
 
-    return this.client.get<ChunksResponse>('/chunks', params, headers);
+    return this.client.get<ChunksResponse>('/chunks', params, headers, requestOptions);
   }
 
   /**
@@ -1,12 +1,13 @@
 /** Compress resource for text compression via Mielto API. */
 
-import { BaseClient } from '../clients/base';
+import { BaseClient, RequestOptions } from '../clients/base';
+import { APIPromise } from '../clients/api-promise';
 import { CompressRequest, CompressResponse } from '../types/compress';
 
 export class Compress {
   constructor(private client: BaseClient) {}
 
-  async compress(request: CompressRequest): Promise<CompressResponse> {
+  compress(request: CompressRequest, requestOptions?: RequestOptions): APIPromise<CompressResponse> {
     const payload: any = {
       content: request.content,
       strategy: request.strategy || 'ai_compress',
@@ -14,7 +15,7 @@ export class Compress {
     };
     if (request.webhook_url) payload.webhook_url = request.webhook_url;
 
-    return this.client.post<CompressResponse>('/compress', payload);
+    return this.client.post<CompressResponse>('/compress', payload, undefined, requestOptions);
   }
 }
 
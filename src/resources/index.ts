@@ -1,6 +1,10 @@
 /** Resource classes for Mielto API. */
 
 export * from './chat';
+export * from './chat-stream';
+export * from './chat-tools';
+export * from './chat-parse';
+export * from './chat-conversation';
 export * from './memories';
 export * from './collections';
 export * from './compress';
@@ -1,6 +1,8 @@
 /** Memory resource for interacting with the Mielto Memory API. */
 
-import { BaseClient } from '../clients/base';
+import { BaseClient, RequestOptions } from '../clients/base';
+import { APIPromise } from '../clients/api-promise';
+import { withDefaults } from '../utils';
 import {
   Memory,
   MemoryCreate,
@@ -18,16 +20,23 @@ import {
 export class Memories {
   constructor(private client: BaseClient) { }
 
+  /** Defaults injected into memory payloads by a scoped client. */
+  private get scopeDefaults(): Record<string, any> {
+    return { user_id: this.client.defaults.userId };
+  }
+
   /**
    * Create a memory.
    *
    * @param memoryData - Memory data to create
+   * @param requestOptions - Per-call options such as `signal` and `timeout`
    * @returns Created memory
    */
-  async create(memoryData: MemoryCreate | Record<string, any>): Promise<Memory> {
-    const payload = memoryData;
-    const response = await this.client.post<{ memory: Memory }>('/memories', payload);
-    return response.memory;
+  create(memoryData: MemoryCreate | Record<string, any>, requestOptions?: RequestOptions): APIPromise<Memory> {
+    const payload = withDefaults(memoryData, this.scopeDefaults);
+    return this.client
+      .post<{ memory: Memory }>('/memories', payload, undefined, requestOptions)
+      ._thenUnwrap(response => response.memory);
   }
 
   /**
@@ -35,49 +44,58 @@ export class Memories {
    *
    * @param memoryId - Memory ID to get
    * @param userId - User ID to get the memory for
+   * @param requestOptions - Per-call options such as `signal` and `timeout`
    * @returns Memory
    */
-  async get(memoryId: string, userId?: string): Promise<Memory> {
+  get(memoryId: string, userId?: string, requestOptions?: RequestOptions): APIPromise<Memory> {
     const params: Record<string, any> = {};
+    userId = userId ?? this.client.defaults.userId;
     if (userId) params.user_id = userId;
-    return this.client.get<Memory>(`/memories/${memoryId}`, params);
+    return this.client.get<Memory>(`/memories/${memoryId}`, params, undefined, requestOptions);
   }
 
   /**
    * List memories.
    *
    * @param options - Options for listing memories
+   * @param requestOptions - Per-call options such as `signal` and `timeout`
    * @returns MemoryListResponse with memories and pagination info
    */
-  async list(
+  list(
     options: {
       user_id?: string;
       cursor?: string;
       limit?: number;
       sort_by?: string;
       sort_order?: string;
-    } = {}
-  ): Promise<MemoryListResponse> {
+    } = {},
+    requestOptions?: RequestOptions
+  ): APIPromise<MemoryListResponse> {
     const params: Record<string, any> = {
       limit: options.limit || 50,
       sort_by: options.sort_by || 'updated_at',
       sort_order: options.sort_order || 'desc',
     };
-    if (options.user_id) params.user_id = options.user_id;
+    const userId = options.user_id ?? this.client.defaults.userId;
+    if (userId) params.user_id = userId;
     if (options.cursor) params.cursor = options.cursor;
 
-    return this.client.get<MemoryListResponse>('/memories', params);
+    return this.client.get<MemoryListResponse>('/memories', params, undefined, requestOptions);
   }
 
   /**
    * Search for memories.
    *
    * @param searchRequest - Request for searching memories
+   * @param requestOptions - Per-call options such as `signal` and `timeout`
    * @returns MemorySearchResponse with memories found
    */
-  async search(searchRequest: MemorySearchRequest | Record<string, any>): Promise<MemorySearchResponse> {
-    const payload = searchRequest;
-    return this.client.post<MemorySearchResponse>('/memories/search', payload);
+  search(
+    searchRequest: MemorySearchRequest | Record<string, any>,
+    requestOptions?: RequestOptions
+  ): APIPromise<MemorySearchResponse> {
+    const payload = withDefaults(searchRequest, this.scopeDefaults);
+    return this.client.post<MemorySearchResponse>('/memories/search', payload, undefined, { idempotent: true, ...requestOptions });
   }
 
   /**
@@ -85,12 +103,18 @@ export class Memories {
    *
    * @param memoryId - Memory ID to update
    * @param memoryData - Memory data to update the memory with
+   * @param requestOptions - Per-call options such as `signal` and `timeout`
    * @returns Updated memory
    */
-  async update(memoryId: string, memoryData: MemoryUpdate | Record<string, any>): Promise<Memory> {
-    const payload = memoryData;
-    const response = await this.client.put<{ memory: Memory }>(`/memories/${memoryId}`, payload);
-    return response.memory;
+  update(
+    memoryId: string,
+    memoryData: MemoryUpdate | Record<string, any>,
+    requestOptions?: RequestOptions
+  ): APIPromise<Memory> {
+    const payload = withDefaults(memoryData, this.scopeDefaults);
+    return this.client
+      .put<{ memory: Memory }>(`/memories/${memoryId}`, payload, undefined, requestOptions)
+      ._thenUnwrap(response => response.memory);
   }
 
   /**
@@ -98,11 +122,16 @@ export class Memories {
    *
    * @param memoryId - Memory ID to replace
    * @param memoryData - Memory data to replace the memory with
+   * @param requestOptions - Per-call options such as `signal` and `timeout`
    * @returns Memory replaced
    */
-  async replace(memoryId: string, memoryData: MemoryReplace | Record<string, any>): Promise<any> {
-    const payload = memoryData;
-    return this.client.post(`/memories/${memoryId}/replace`, payload);
+  replace(
+    memoryId: string,
+    memoryData: MemoryReplace | Record<string, any>,
+    requestOptions?: RequestOptions
+  ): APIPromise<any> {
+    const payload = withDefaults(memoryData, this.scopeDefaults);
+    return this.client.post(`/memories/${memoryId}/replace`, payload, undefined, requestOptions);
   }
 
   /**
@@ -110,10 +139,12 @@ export class Memories {
    *
    * @param memoryId - Memory ID to delete
    * @param userId - User ID to delete the memory for
+   * @param requestOptions - Per-call options such as `signal` and `timeout`
    * @returns void
    */
-  async delete(memoryId: string, userId?: string): Promise<void> {
+  delete(memoryId: string, userId?: string, requestOptions?: RequestOptions): APIPromise<void> {
     const params: Record<string, any> = {};
+    userId = userId ?? this.client.defaults.userId;
     if (userId) params.user_id = userId;
 
     let endpoint = `/memories/${memoryId}`;
@@ -124,49 +155,56 @@ export class Memories {
       endpoint += `?${queryString}`;
     }
 
-    await this.client.delete(endpoint);
     // 204 No Content - no response body
+    return this.client.delete(endpoint, undefined, requestOptions)._thenUnwrap(() => undefined);
   }
   /**
    * Create memories from messages.
    *
    * @param request - Request for creating memories from messages
+   * @param requestOptions - Per-call options such as `signal` and `timeout`
    * @returns MemoryFromMessagesResponse with memories created
    */
 
-  async fromMessages(request: MemoryFromMessagesRequest): Promise<MemoryFromMessagesResponse> {
-    const payload = request;
-    const response = await this.client.post<MemoryFromMessagesResponse>('/memories/from_messages', payload);
-
-    // Handle response - API may return memories in 'result' field
-    if ('result' in response && Array.isArray((response as any).result)) {
-      (response as any).memories = (response as any).result;
-      delete (response as any).result;
-    }
-
-    return response;
+  fromMessages(
+    request: MemoryFromMessagesRequest,
+    requestOptions?: RequestOptions
+  ): APIPromise<MemoryFromMessagesResponse> {
+    const payload = withDefaults(request, this.scopeDefaults);
+    return this.client
+      .post<MemoryFromMessagesResponse>('/memories/from_messages', payload, undefined, requestOptions)
+      ._thenUnwrap(response => {
+        // Handle response - API may return memories in 'result' field
+        if ('result' in response && Array.isArray((response as any).result)) {
+          (response as any).memories = (response as any).result;
+          delete (response as any).result;
+        }
+
+        return response;
+      });
   }
 
   /**
    * Get memory chunks.
    *
    * @param options - Options for getting memory chunks
+   * @param requestOptions - Per-call options such as `signal` and `timeout`
    * @returns MemoryChunksResponse with memory chunks data, next_cursor, and has_more
    */
-  async getChunks(options: {
-    user_id: string;
+  getChunks(options: {
+    user_id?: string;
     limit?: number;
     cursor?: string;
     include_embedding?: boolean;
-  }): Promise<MemoryChunksResponse> {
+  }, requestOptions?: RequestOptions): APIPromise<MemoryChunksResponse> {
     const params: Record<string, any> = {
-      user_id: options.user_id,
+      user_id: options.user_id ?? this.client.defaults.userId,
       limit: options.limit || 100,
       include_embedding: options.include_embedding || false,
     };
     if (options.cursor) params.cursor = options.cursor;
 
-    return this.client.get<MemoryChunksResponse>('/memories/chunks', params);
+    return this.client.get<MemoryChunksResponse>('/memories/chunks', params, undefined, requestOptions);
   }
 
   /**
@@ -179,7 +217,8 @@ export class Memories {
    * The profile is automatically generated and updated based on the user's memories.
    * It provides a comprehensive view of the user's identity, preferences, and context.
    *
-   * @param userId - User ID to get the profile for
+   * @param userId - User ID to get the profile for. Defaults to the scoped client's user
+   * @param requestOptions - Per-call options such as `signal` and `timeout`
    * @returns MemoryProfileResponse with profile data
    *
    * @example
@@ -193,11 +232,11 @@ export class Memories {
    * }
    * ```
    */
-  async getProfile(userId: string): Promise<MemoryProfileResponse> {
+  getProfile(userId?: string, requestOptions?: RequestOptions): APIPromise<MemoryProfileResponse> {
     const params: Record<string, any> = {
-      user_id: userId,
+      user_id: userId ?? this.client.defaults.userId,
     };
-    return this.client.get<MemoryProfileResponse>('/memories/profile', params);
+    return this.client.get<MemoryProfileResponse>('/memories/profile', params, undefined, requestOptions);
   }
 }
 
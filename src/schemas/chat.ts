@@ -0,0 +1,146 @@
+/** Zod schemas for chat completion types. */
+
+import { z } from 'zod';
+import {
+  ChatRole,
+  ChatMessage,
+  ChatDelta,
+  FunctionDefinition,
+  ToolDefinition,
+  ChatToolCall,
+  ChatCompletionChoice,
+  ChatCompletionUsage,
+  ChatCompletion,
+  ChatCompletionChunkChoice,
+  ChatCompletionChunk,
+  ChatCompletionStreamOptions,
+  ChatCompletionJSONSchema,
+  ChatCompletionResponseFormat,
+  ChatCompletionRequest,
+} from '../types/chat';
+
+const Dict = z.record(z.string(), z.any());
+const Content = z.union([z.string(), z.array(Dict)]);
+
+export const ChatRoleSchema: z.ZodType<ChatRole> = z.enum(['system', 'user', 'assistant', 'tool', 'function']);
+
+export const ChatMessageSchema: z.ZodType<ChatMessage> = z.object({
+  role: ChatRoleSchema,
+  content: Content.nullable().optional().transform(content => content ?? undefined),
+  name: z.string().optional(),
+  tool_calls: z.array(Dict).optional(),
+  tool_call_id: z.string().optional(),
+  function_call: Dict.optional(),
+});
+
+export const ChatDeltaSchema: z.ZodType<ChatDelta> = z.object({
+  role: ChatRoleSchema.optional(),
+  content: Content.nullable().optional().transform(content => content ?? undefined),
+  name: z.string().optional(),
+  tool_calls: z.array(Dict).optional(),
+  tool_call_id: z.string().optional(),
+  function_call: Dict.optional(),
+});
+
+export const FunctionDefinitionSchema: z.ZodType<FunctionDefinition> = z.object({
+  name: z.string(),
+  description: z.string().optional(),
+  parameters: Dict,
+  strict: z.boolean().optional(),
+});
+
+export const ToolDefinitionSchema: z.ZodType<ToolDefinition> = z.object({
+  type: z.literal('function'),
+  function: FunctionDefinitionSchema,
+});
+
+export const ChatToolCallSchema: z.ZodType<ChatToolCall> = z.object({
+  id: z.string(),
+  type: z.literal('function'),
+  function: z.object({
+    name: z.string(),
+    arguments: z.string(),
+  }),
+});
+
+export const ChatCompletionChoiceSchema: z.ZodType<ChatCompletionChoice> = z.object({
+  index: z.number(),
+  message: ChatMessageSchema,
+  finish_reason: z.string().nullable().optional(),
+  logprobs: Dict.nullable().optional(),
+});
+
+export const ChatCompletionUsageSchema: z.ZodType<ChatCompletionUsage> = z.object({
+  prompt_tokens: z.number(),
+  completion_tokens: z.number(),
+  total_tokens: z.number(),
+});
+
+export const ChatCompletionSchema: z.ZodType<ChatCompletion> = z.object({
+  id: z.string(),
+  object: z.literal('chat.completion'),
+  created: z.number(),
+  model: z.string(),
+  choices: z.array(ChatCompletionChoiceSchema),
+  usage: ChatCompletionUsageSchema.optional(),
+});
+
+export const ChatCompletionChunkChoiceSchema: z.ZodType<ChatCompletionChunkChoice> = z.object({
+  index: z.number(),
+  delta: ChatDeltaSchema,
+  finish_reason: z.string().nullable().optional(),
+  logprobs: Dict.nullable().optional(),
+});
+
+export const ChatCompletionChunkSchema: z.ZodType<ChatCompletionChunk> = z.object({
+  id: z.string(),
+  object: z.literal('chat.completion.chunk'),
+  created: z.number(),
+  model: z.string(),
+  choices: z.array(ChatCompletionChunkChoiceSchema),
+  usage: ChatCompletionUsageSchema.nullable().optional(),
+});
+
+export const ChatCompletionJSONSchemaSchema: z.ZodType<ChatCompletionJSONSchema> = z.object({
+  name: z.string(),
+  description: z.string().optional(),
+  schema: Dict,
+  strict: z.boolean().optional(),
+});
+
+export const ChatCompletionResponseFormatSchema: z.ZodType<ChatCompletionResponseFormat> = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('text') }),
+  z.object({ type: z.literal('json_object') }),
+  z.object({ type: z.literal('json_schema'), json_schema: ChatCompletionJSONSchemaSchema }),
+]);
+
+export const ChatCompletionStreamOptionsSchema: z.ZodType<ChatCompletionStreamOptions> = z.object({
+  include_usage: z.boolean().optional(),
+});
+
+export const ChatCompletionRequestSchema: z.ZodType<ChatCompletionRequest> = z.object({
+  model: z.string(),
+  messages: z.array(z.union([ChatMessageSchema, Dict])),
+  temperature: z.number().optional(),
+  top_p: z.number().optional(),
+  n: z.number().optional(),
+  stream: z.boolean().optional(),
+  stream_options: ChatCompletionStreamOptionsSchema.optional(),
+  stop: z.union([z.string(), z.array(z.string())]).optional(),
+  max_tokens: z.number().optional(),
+  presence_penalty: z.number().optional(),
+  frequency_penalty: z.number().optional(),
+  logit_bias: z.record(z.string(), z.number()).optional(),
+  user: z.string().optional(),
+  tools: z.array(z.union([ToolDefinitionSchema, Dict])).optional(),
+  tool_choice: z.union([z.string(), Dict]).optional(),
+  response_format: ChatCompletionResponseFormatSchema.optional(),
+  seed: z.number().optional(),
+  logprobs: z.boolean().optional(),
+  top_logprobs: z.number().optional(),
+  user_id: z.string().optional(),
+  conversation_id: z.string().optional(),
+  session_id: z.string().optional(),
+  workspace_id: z.string().optional(),
+  collection_ids: z.array(z.string()).optional(),
+});
@@ -0,0 +1,196 @@
+/** Zod schemas for collection types. */
+
+import { z } from 'zod';
+import {
+  CollectionStoreType,
+  CollectionStatus,
+  SearchType,
+  CollectionCreate,
+  CollectionUpdate,
+  Collection,
+  SearchResult,
+  SearchRequest,
+  SearchResponse,
+  Chunk,
+  ChunksResponse,
+  FileUpload,
+  ExtractStrategy,
+  ExtractConfig,
+  ChunkConfig,
+  ReaderProviderConfig,
+  UploadRequest,
+  UploadContent,
+  UploadError,
+  UploadResponse,
+} from '../types/collection';
+
+const Metadata = z.record(z.string(), z.any());
+
+export const CollectionStoreTypeSchema = z.enum(CollectionStoreType);
+export const CollectionStatusSchema = z.enum(CollectionStatus);
+export const SearchTypeSchema = z.enum(SearchType);
+export const ExtractStrategySchema = z.enum(ExtractStrategy);
+
+export const CollectionCreateSchema: z.ZodType<CollectionCreate> = z.object({
+  name: z.string(),
+  description: z.string().optional(),
+  store_type: CollectionStoreTypeSchema.optional(),
+  visibility: z.string().optional(),
+  tags: z.array(z.string()).optional(),
+  parent_id: z.string().optional(),
+  meta_data: Metadata.optional(),
+  settings: Metadata.optional(),
+  embedding: Metadata.optional(),
+});
+
+export const CollectionUpdateSchema: z.ZodType<CollectionUpdate> = z.object({
+  name: z.string().optional(),
+  description: z.string().optional(),
+  visibility: z.string().optional(),
+  tags: z.array(z.string()).optional(),
+  parent_id: z.string().optional(),
+  meta_data: Metadata.optional(),
+  settings: Metadata.optional(),
+  embedding: Metadata.optional(),
+});
+
+export const CollectionSchema: z.ZodType<Collection> = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string().optional(),
+  store_type: z.string().optional(),
+  visibility: z.string(),
+  status: z.string(),
+  tags: z.array(z.string()).optional(),
+  parent_id: z.string().optional(),
+  stats: Metadata.optional(),
+  meta_data: Metadata.optional(),
+  settings: Metadata.optional(),
+  embedding: Metadata.optional(),
+  workspace_id: z.string(),
+  created_by: z.string().optional(),
+  created_at: z.string().optional(),
+  updated_at: z.string().optional(),
+});
+
+/** Response of `collections.list`. */
+export const CollectionListResponseSchema = z.object({
+  data: z.array(CollectionSchema),
+  total_count: z.number(),
+  page: z.number().nullable().optional(),
+  limit: z.number().nullable().optional(),
+});
+
+/** Response of `collections.delete`. */
+export const CollectionDeleteResponseSchema = z.object({
+  message: z.string(),
+  collection_id: z.string(),
+  status: z.string(),
+  job_id: z.string().optional(),
+});
+
+export const SearchResultSchema: z.ZodType<SearchResult> = z.object({
+  content: z.string(),
+  score: z.number(),
+  metadata: Metadata.optional(),
+  content_id: z.string().optional(),
+  source: z.string().optional(),
+});
+
+export const SearchRequestSchema: z.ZodType<SearchRequest> = z.object({
+  query: z.string(),
+  collection_id: z.string(),
+  search_type: SearchTypeSchema.optional(),
+  k: z.number().optional(),
+  score_threshold: z.number().optional(),
+  filters: Metadata.optional(),
+  metadata_filters: Metadata.optional(),
+});
+
+export const SearchResponseSchema: z.ZodType<SearchResponse> = z.object({
+  results: z.array(SearchResultSchema),
+  total_results: z.number(),
+  query: z.string(),
+  search_type: z.string(),
+});
+
+export const ChunkSchema: z.ZodType<Chunk> = z.object({
+  id: z.string(),
+  content: z.string(),
+  content_id: z.string().optional(),
+  embedding: z.array(z.number()).optional(),
+  metadata: Metadata.optional(),
+  created_at: z.string().optional(),
+  updated_at: z.string().optional(),
+});
+
+export const ChunksResponseSchema: z.ZodType<ChunksResponse> = z.object({
+  data: z.array(ChunkSchema),
+  total_count: z.number().nullable().optional(),
+  next_cursor: z.string().nullable().optional(),
+  has_more: z.boolean(),
+});
+
+export const FileUploadSchema: z.ZodType<FileUpload> = z.object({
+  file: z.string(),
+  label: z.string(),
+  mimetype: z.string().optional(),
+});
+
+export const ExtractConfigSchema: z.ZodType<ExtractConfig> = z.object({
+  strategy: ExtractStrategySchema.optional(),
+  pages: z.array(z.union([z.number(), z.string()])).optional(),
+  instructions: z.union([z.string(), Metadata]).optional(),
+});
+
+export const ChunkConfigSchema: z.ZodType<ChunkConfig> = z.object({
+  strategy: z.string().optional(),
+  chunk_size: z.number().optional(),
+  chunk_overlap: z.number().optional(),
+  max_chunks: z.number().optional(),
+  separators: z.array(z.string()).optional(),
+});
+
+export const ReaderProviderConfigSchema: z.ZodType<ReaderProviderConfig> = z.object({
+  provider: z.string().optional(),
+  reader: z.string().optional(),
+  config: Metadata.optional(),
+  extract: ExtractConfigSchema.optional(),
+  chunk: ChunkConfigSchema.optional(),
+});
+
+export const UploadRequestSchema: z.ZodType<UploadRequest> = z.object({
+  collection_id: z.string(),
+  content_type: z.enum(['text', 'file', 'url']),
+  files: z.array(FileUploadSchema).optional(),
+  content: z.string().optional(),
+  urls: z.array(z.string()).optional(),
+  label: z.string().optional(),
+  description: z.string().optional(),
+  metadata: Metadata.optional(),
+  ingest: z.boolean().optional(),
+  reader: z.union([z.string(), ReaderProviderConfigSchema]).optional(),
+});
+
+export const UploadContentSchema: z.ZodType<UploadContent> = z.object({
+  id: z.string(),
+  name: z.string(),
+  content_type: z.string(),
+  status: z.string(),
+  error: z.string().optional(),
+});
+
+export const UploadErrorSchema: z.ZodType<UploadError> = z.object({
+  name: z.string(),
+  error: z.string(),
+});
+
+export const UploadResponseSchema: z.ZodType<UploadResponse> = z.object({
+  status: z.enum(['success', 'failed', 'partial_success']),
+  total_uploads: z.number(),
+  successful_uploads: z.number(),
+  failed_uploads: z.number(),
+  contents: z.array(UploadContentSchema),
+  successful: z.array(UploadContentSchema).optional(),
+  errors: z.array(UploadErrorSchema).optional(),
+});
@@ -0,0 +1,20 @@
+/** Zod schemas for compress types. */
+
+import { z } from 'zod';
+import { CompressRequest, CompressResponse } from '../types/compress';
+
+export const CompressRequestSchema: z.ZodType<CompressRequest> = z.object({
+  content: z.union([z.string(), z.array(z.record(z.string(), z.any()))]),
+  strategy: z.string().optional(),
+  include_metadata: z.boolean().optional(),
+  webhook_url: z.string().optional(),
+});
+
+export const CompressResponseSchema: z.ZodType<CompressResponse> = z.object({
+  status: z.string(),
+  content: z.string().optional(),
+  compression_time: z.number().optional(),
+  original_length: z.number().optional(),
+  compressed_length: z.number().optional(),
+  message: z.string().optional(),
+});
@@ -0,0 +1,6 @@
+/** Zod schemas matching the Mielto API types. */
+
+export * from './chat';
+export * from './memory';
+export * from './collection';
+export * from './compress';
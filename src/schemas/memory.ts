@@ -0,0 +1,112 @@
+/** Zod schemas for memory types. */
+
+import { z } from 'zod';
+import {
+  Memory,
+  MemoryCreate,
+  MemoryUpdate,
+  MemoryReplace,
+  MemorySearchRequest,
+  MemorySearchResponse,
+  MemoryListResponse,
+  MemoryFromMessagesRequest,
+  MemoryFromMessagesResult,
+  MemoryFromMessagesResponse,
+  MemoryChunk,
+  MemoryChunksResponse,
+  MemoryProfileResponse,
+} from '../types/memory';
+
+const Metadata = z.record(z.string(), z.any());
+
+export const MemoryCreateSchema: z.ZodType<MemoryCreate> = z.object({
+  user_id: z.string(),
+  memory: z.string(),
+  memory_type: z.string().optional(),
+  topics: z.array(z.string()).optional(),
+  metadata: Metadata.optional(),
+});
+
+export const MemoryUpdateSchema: z.ZodType<MemoryUpdate> = z.object({
+  user_id: z.string().optional(),
+  memory: z.string().optional(),
+  topics: z.array(z.string()).optional(),
+  metadata: Metadata.optional(),
+});
+
+export const MemoryReplaceSchema: z.ZodType<MemoryReplace> = z.object({
+  user_id: z.string().optional(),
+  memory: z.string(),
+  topics: z.array(z.string()).optional(),
+  metadata: Metadata.optional(),
+});
+
+export const MemorySchema: z.ZodType<Memory> = z.object({
+  memory_id: z.string(),
+  user_id: z.string(),
+  memory: z.string(),
+  topics: z.array(z.string()).optional(),
+  created_at: z.string().optional(),
+  updated_at: z.string().optional(),
+  metadata: Metadata.optional(),
+});
+
+export const MemorySearchRequestSchema: z.ZodType<MemorySearchRequest> = z.object({
+  query: z.string(),
+  user_id: z.string().optional(),
+  limit: z.number().optional(),
+  retrieval_method: z.string().optional(),
+});
+
+export const MemorySearchResponseSchema: z.ZodType<MemorySearchResponse> = z.object({
+  memories: z.array(MemorySchema),
+  total_results: z.number(),
+  query: z.string(),
+  retrieval_method: z.string(),
+});
+
+export const MemoryListResponseSchema: z.ZodType<MemoryListResponse> = z.object({
+  data: z.array(MemorySchema),
+  total_count: z.number().nullable().optional(),
+  next_cursor: z.string().nullable().optional(),
+  has_more: z.boolean(),
+});
+
+export const MemoryFromMessagesRequestSchema: z.ZodType<MemoryFromMessagesRequest> = z.object({
+  messages: z.array(z.record(z.string(), z.any())),
+  user_id: z.string(),
+  agent_id: z.string().optional(),
+  team_id: z.string().optional(),
+});
+
+export const MemoryFromMessagesResultSchema: z.ZodType<MemoryFromMessagesResult> = z.object({
+  memories_created: z.number(),
+  memory_ids: z.array(z.string()),
+});
+
+export const MemoryFromMessagesResponseSchema: z.ZodType<MemoryFromMessagesResponse> = z.object({
+  message: z.string(),
+  result: MemoryFromMessagesResultSchema.optional(),
+  memories: z.array(MemorySchema).optional(),
+});
+
+export const MemoryChunkSchema: z.ZodType<MemoryChunk> = z.object({
+  id: z.string(),
+  content: z.string(),
+  content_id: z.string().optional(),
+  embedding: z.array(z.number()).optional(),
+  metadata: Metadata.optional(),
+});
+
+export const MemoryChunksResponseSchema: z.ZodType<MemoryChunksResponse> = z.object({
+  data: z.array(MemoryChunkSchema),
+  total_count: z.number().nullable().optional(),
+  next_cursor: z.string().nullable().optional(),
+  has_more: z.boolean(),
+});
+
+export const MemoryProfileResponseSchema: z.ZodType<MemoryProfileResponse> = z.object({
+  user_id: z.string(),
+  profile: MemorySchema.nullable().optional(),
+  structured_profile: z.record(z.string(), z.any()).nullable().optional(),
+});
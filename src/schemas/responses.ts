@@ -0,0 +1,80 @@
+/** Response schemas for each resource operation, used by `validateResponses`. */
+
+import { z } from 'zod';
+import {
+  MemorySchema,
+  MemorySearchResponseSchema,
+  MemoryListResponseSchema,
+  MemoryFromMessagesResultSchema,
+  MemoryChunksResponseSchema,
+  MemoryProfileResponseSchema,
+} from './memory';
+import {
+  CollectionSchema,
+  CollectionListResponseSchema,
+  CollectionDeleteResponseSchema,
+  SearchResponseSchema,
+  ChunksResponseSchema,
+  UploadResponseSchema,
+} from './collection';
+import { CompressResponseSchema } from './compress';
+import { ChatCompletionSchema, ChatCompletionChunkSchema } from './chat';
+import { ValidationIssue } from '../exceptions';
+
+/**
+ * Schemas for raw response bodies, keyed by operation name (see `getOperationName`).
+ * Envelopes such as `{ memory }` are validated before the resource unwraps them.
+ */
+export const RESPONSE_SCHEMAS: Record<string, z.ZodType> = {
+  'memories.create': z.object({ memory: MemorySchema }),
+  'memories.get': MemorySchema,
+  'memories.update': z.object({ memory: MemorySchema }),
+  'memories.list': MemoryListResponseSchema,
+  'memories.search': MemorySearchResponseSchema,
+  'memories.fromMessages': z.object({
+    message: z.string(),
+    // Some API versions return the created memories in `result`
+    result: z.union([MemoryFromMessagesResultSchema, z.array(MemorySchema)]).optional(),
+    memories: z.array(MemorySchema).optional(),
+  }),
+  'memories.getChunks': MemoryChunksResponseSchema,
+  'memories.getProfile': MemoryProfileResponseSchema,
+  'collections.create': CollectionSchema,
+  'collections.get': CollectionSchema,
+  'collections.update': CollectionSchema,
+  'collections.list': CollectionListResponseSchema,
+  'collections.delete': CollectionDeleteResponseSchema,
+  'collections.search': SearchResponseSchema,
+  'collections.insert': UploadResponseSchema,
+  'collections.getChunks': ChunksResponseSchema,
+  'compress.compress': CompressResponseSchema,
+  'chat.completions.create': ChatCompletionSchema,
+  /** Each event of a streamed chat completion. */
+  'chat.completions.chunk': ChatCompletionChunkSchema,
+};
+
+export interface ResponseIssue {
+  /** Dotted path of the first failing field, e.g. `memories.0.memory_id`. */
+  path: string;
+  message: string;
+  issues: ValidationIssue[];
+}
+
+/**
+ * Check a response body against a schema.
+ *
+ * @returns The first failing path and all issues, or undefined if the body is valid
+ */
+export function checkResponse(schema: z.ZodType, data: unknown): ResponseIssue | undefined {
+  const result = schema.safeParse(data);
+  if (result.success) {
+    return undefined;
+  }
+  const issues = result.error.issues.map(issue => ({ path: issue.path, message: issue.message }));
+  const [first] = issues;
+  return {
+    path: first.path.map(String).join('.') || '(root)',
+    message: first.message,
+    issues,
+  };
+}
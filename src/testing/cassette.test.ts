@@ -0,0 +1,70 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { CassetteTransport } from './cassette';
+import { Mielto } from '../clients/mielto';
+import { Transport } from '../clients/transport';
+
+const API_KEY = 'sk-test-secret';
+
+/** A transport that streams chunks echoing the request's `user_id` and the API key. */
+const echoingTransport: Transport = {
+  async request(request) {
+    const { user_id } = JSON.parse(request.body!);
+    const chunk = {
+      id: 'chatcmpl_1',
+      object: 'chat.completion.chunk',
+      created: 1,
+      model: 'gpt-4o',
+      user_id,
+      choices: [{ index: 0, delta: { role: 'assistant', content: `key ${API_KEY}` }, finish_reason: 'stop' }],
+    };
+    const events = `data: ${JSON.stringify(chunk)}\r\n\r\ndata: [DONE]\r\n\r\n`;
+    return {
+      status: 200,
+      headers: { 'content-type': 'text/event-stream' },
+      body: new ReadableStream({
+        start(controller) {
+          controller.enqueue(new TextEncoder().encode(events));
+          controller.close();
+        },
+      }),
+    };
+  },
+};
+
+async function streamChat(client: Mielto): Promise<string> {
+  const stream = await client.chat.completions.create({
+    model: 'gpt-4o',
+    messages: [{ role: 'user', content: 'Hi' }],
+    user_id: 'user_123',
+    stream: true,
+  });
+  const completion = await stream.finalCompletion();
+  return completion.choices[0].message.content as string;
+}
+
+describe('CassetteTransport', () => {
+  it('redacts configured fields and the API key in recorded streams', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'mielto-cassette-'));
+    const path = join(dir, 'stream.json');
+    try {
+      const recorder = new CassetteTransport({ path, mode: 'record', transport: echoingTransport, redact: ['user_id'] });
+      assert.equal(await streamChat(new Mielto({ apiKey: API_KEY, transport: recorder })), `key ${API_KEY}`);
+      await recorder.flush();
+
+      const text = await readFile(path, 'utf-8');
+      assert.ok(!text.includes('user_123'));
+      assert.ok(!text.includes(API_KEY));
+      const { events } = JSON.parse(text).interactions[0].response;
+      assert.match(events, /^data: \{.*"user_id":"\[REDACTED\]".*\}\r\n\r\ndata: \[DONE\]\r\n\r\n$/);
+
+      const player = new CassetteTransport({ path, mode: 'replay', redact: ['user_id'] });
+      assert.equal(await streamChat(new Mielto({ apiKey: 'replay', transport: player })), 'key [REDACTED]');
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
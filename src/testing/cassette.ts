@@ -0,0 +1,311 @@
+/** Record/replay transport that stores Mielto traffic as cassettes on disk. */
+
+import { MieltoError } from '../exceptions';
+import { Transport, TransportRequest, TransportResponse, FetchTransport, parseBody } from '../clients/transport';
+import { redactBody } from '../clients/logger';
+import { getResourcePath } from './fake-server';
+
+/**
+ * - `record`: send every request and overwrite the cassette
+ * - `replay`: answer from the cassette only; never touch the network
+ * - `auto`: replay if the cassette file exists, otherwise record it
+ */
+export type CassetteMode = 'record' | 'replay' | 'auto';
+
+export interface CassetteTransportOptions {
+  /** Path of the cassette JSON file. */
+  path: string;
+  /** Defaults to `auto`. */
+  mode?: CassetteMode;
+  /** Transport used while recording. Defaults to a `FetchTransport`. */
+  transport?: Transport;
+  /**
+   * Query parameters and body fields to replace with `[REDACTED]`, at any
+   * depth, e.g. `['user_id', 'email']`. Redacted fields still take part in
+   * matching, with the redacted value.
+   */
+  redact?: string[];
+  /** Compare request bodies when matching. Defaults to true. */
+  matchBody?: boolean;
+}
+
+export interface CassetteRequest {
+  method: string;
+  /** Path relative to the API base URL, with query parameters sorted. */
+  path: string;
+  body?: any;
+}
+
+export interface CassetteResponse {
+  status: number;
+  headers: Record<string, string>;
+  body?: any;
+  /** Raw server-sent events text, for streamed responses. */
+  events?: string;
+}
+
+export interface CassetteInteraction {
+  request: CassetteRequest;
+  response: CassetteResponse;
+}
+
+export interface Cassette {
+  version: 1;
+  interactions: CassetteInteraction[];
+}
+
+/** Response headers that are never written to a cassette. */
+const SENSITIVE_HEADERS = ['set-cookie', 'authorization', 'x-api-key'];
+
+const REDACTED = '[REDACTED]';
+
+/**
+ * Raised in replay mode when a request has no recorded interaction.
+ */
+export class CassetteMismatchError extends MieltoError {
+  static readonly defaultCode: string = 'CASSETTE_MISMATCH';
+
+  public readonly request: CassetteRequest;
+
+  constructor(message: string, request: CassetteRequest) {
+    super(message);
+    this.name = 'CassetteMismatchError';
+    this.request = request;
+    Object.setPrototypeOf(this, CassetteMismatchError.prototype);
+  }
+}
+
+/**
+ * Transport that records real Mielto exchanges to a cassette file and
+ * replays them offline. Streamed chat completions are recorded as raw
+ * server-sent events and replayed as a stream.
+ *
+ * Cassettes never contain request headers; the API key is also scrubbed from
+ * recorded bodies. Node.js only.
+ *
+ * @example
+ * ```typescript
+ * import { CassetteTransport } from 'mielto/testing';
+ *
+ * const client = new Mielto({
+ *   apiKey: process.env.MIELTO_API_KEY ?? 'replay',
+ *   transport: new CassetteTransport({ path: 'fixtures/search.json', redact: ['user_id'] }),
+ * });
+ * ```
+ */
+export class CassetteTransport implements Transport {
+  private options: CassetteTransportOptions;
+  private cassette?: Cassette;
+  private recording = false;
+  private used = new Set<CassetteInteraction>();
+  private secrets = new Set<string>();
+  private loading?: Promise<void>;
+  private writing: Promise<void> = Promise.resolve();
+  private pendingStreams = new Set<Promise<void>>();
+
+  constructor(options: CassetteTransportOptions) {
+    this.options = options;
+  }
+
+  async request(request: TransportRequest): Promise<TransportResponse> {
+    await this.load();
+    const cassetteRequest = this.toCassetteRequest(request);
+
+    if (!this.recording) {
+      return this.replay(cassetteRequest, request.stream);
+    }
+
+    const authorization = Object.entries(request.headers)
+      .find(([name]) => name.toLowerCase() === 'authorization')?.[1];
+    const apiKey = authorization?.replace(/^Bearer\s+/i, '');
+    if (apiKey) {
+      this.secrets.add(apiKey);
+    }
+
+    const transport = this.options.transport || new FetchTransport();
+    const response = await transport.request(request);
+    const recorded: CassetteResponse = {
+      status: response.status,
+      headers: Object.fromEntries(
+        Object.entries(response.headers).filter(([name]) => !SENSITIVE_HEADERS.includes(name))
+      ),
+    };
+
+    if (response.body) {
+      // Hand one branch to the caller and save the other once the stream ends
+      const [callerBody, recordBody] = response.body.tee();
+      const pending = readText(recordBody)
+        .then(events =>
+          this.append({ request: cassetteRequest, response: { ...recorded, events: this.redactEvents(events) } })
+        )
+        .catch(() => {})
+        .finally(() => this.pendingStreams.delete(pending));
+      this.pendingStreams.add(pending);
+      return { ...response, body: callerBody };
+    }
+
+    recorded.body = this.redact(response.data);
+    await this.append({ request: cassetteRequest, response: recorded });
+    return response;
+  }
+
+  /**
+   * Resolve once every recorded interaction has been written to disk.
+   * Streams are saved when fully read, so call it after tests that consume them.
+   */
+  async flush(): Promise<void> {
+    await Promise.all(this.pendingStreams);
+    await this.writing;
+  }
+
+  private replay(request: CassetteRequest, stream?: boolean): TransportResponse {
+    const candidates = this.cassette!.interactions.filter(interaction => this.matches(interaction.request, request));
+    // Identical requests replay their recordings in order; the last one repeats
+    const interaction = candidates.find(candidate => !this.used.has(candidate)) || candidates[candidates.length - 1];
+    if (!interaction) {
+      throw new CassetteMismatchError(
+        `No recorded interaction in ${this.options.path} for ${request.method} ${request.path}` +
+          (request.body !== undefined ? ` with body ${stableStringify(request.body)}` : ''),
+        request
+      );
+    }
+    this.used.add(interaction);
+
+    const { status, headers, body, events } = interaction.response;
+    if (events !== undefined && stream) {
+      return { status, headers, body: textStream(events) };
+    }
+    return { status, headers, data: body };
+  }
+
+  private matches(recorded: CassetteRequest, request: CassetteRequest): boolean {
+    if (recorded.method !== request.method || recorded.path !== request.path) {
+      return false;
+    }
+    if (this.options.matchBody === false) {
+      return true;
+    }
+    return stableStringify(recorded.body) === stableStringify(request.body);
+  }
+
+  private toCassetteRequest(request: TransportRequest): CassetteRequest {
+    const url = new URL(request.url);
+    for (const field of this.options.redact || []) {
+      if (url.searchParams.has(field)) {
+        url.searchParams.set(field, REDACTED);
+      }
+    }
+    url.searchParams.sort();
+    const query = url.searchParams.toString();
+    return {
+      method: request.method.toUpperCase(),
+      path: getResourcePath(url) + (query ? `?${query}` : ''),
+      body: request.body !== undefined ? this.redact(parseBody(request.body)) : undefined,
+    };
+  }
+
+  /**
+   * Replace configured fields and base64 file payloads in a body.
+   */
+  private redact(body: unknown): unknown {
+    const fields = this.options.redact || [];
+    const walk = (value: unknown): unknown => {
+      if (Array.isArray(value)) {
+        return value.map(walk);
+      }
+      if (value && typeof value === 'object') {
+        return Object.fromEntries(
+          Object.entries(value).map(([key, item]) => [key, fields.includes(key) ? REDACTED : walk(item)])
+        );
+      }
+      return value;
+    };
+    return walk(redactBody(body));
+  }
+
+  /**
+   * Redact the JSON payload of each `data:` line of server-sent events text.
+   */
+  private redactEvents(events: string): string {
+    return events.replace(/^data:( ?)(.*)$/gm, (line, space: string, data: string) => {
+      try {
+        return `data:${space}${JSON.stringify(this.redact(JSON.parse(data)))}`;
+      } catch {
+        // `[DONE]` and other data that is not JSON
+        return line;
+      }
+    });
+  }
+
+  private async load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = (async () => {
+        const fs = await import('fs/promises');
+        const mode = this.options.mode || 'auto';
+        let existing: Cassette | undefined;
+        if (mode !== 'record') {
+          try {
+            existing = JSON.parse(await fs.readFile(this.options.path, 'utf-8'));
+          } catch (error: any) {
+            if (error.code !== 'ENOENT' || mode === 'replay') {
+              throw new MieltoError(`Failed to read cassette ${this.options.path}: ${error.message}`);
+            }
+          }
+        }
+        this.recording = !existing;
+        this.cassette = existing || { version: 1, interactions: [] };
+      })();
+    }
+    return this.loading;
+  }
+
+  private append(interaction: CassetteInteraction): Promise<void> {
+    this.cassette!.interactions.push(interaction);
+    this.writing = this.writing.then(async () => {
+      const fs = await import('fs/promises');
+      const path = await import('path');
+      let text = JSON.stringify(this.cassette, null, 2) + '\n';
+      for (const secret of this.secrets) {
+        text = text.split(secret).join(REDACTED);
+      }
+      await fs.mkdir(path.dirname(this.options.path), { recursive: true });
+      await fs.writeFile(this.options.path, text, 'utf-8');
+    });
+    return this.writing;
+  }
+}
+
+/**
+ * JSON with object keys sorted, so bodies compare independently of key order.
+ */
+function stableStringify(value: unknown): string {
+  return JSON.stringify(value, (_key, item) => {
+    if (item && typeof item === 'object' && !Array.isArray(item)) {
+      return Object.fromEntries(Object.keys(item).sort().map(key => [key, item[key]]));
+    }
+    return item;
+  }) ?? 'undefined';
+}
+
+async function readText(body: ReadableStream<Uint8Array>): Promise<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let text = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      return text + decoder.decode();
+    }
+    text += decoder.decode(value, { stream: true });
+  }
+}
+
+function textStream(text: string): ReadableStream<Uint8Array> {
+  const bytes = new TextEncoder().encode(text);
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(bytes);
+      controller.close();
+    },
+  });
+}
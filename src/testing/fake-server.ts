@@ -0,0 +1,722 @@
+/** Stateful in-memory Mielto API for offline tests. */
+
+import { Mielto, MieltoOptions } from '../clients/mielto';
+import { Transport, TransportRequest, TransportResponse } from '../clients/transport';
+import { Memory } from '../types/memory';
+import { Collection, Chunk, UploadContent, SearchResult } from '../types/collection';
+import {
+  ChatCompletion,
+  ChatCompletionChunk,
+  ChatCompletionRequest,
+  ChatCompletionUsage,
+  ChatMessage,
+} from '../types/chat';
+
+/** A request received by the fake server, with the body parsed. */
+export interface FakeRequest {
+  method: string;
+  /** Path relative to the API base URL, e.g. `/memories/search`. */
+  path: string;
+  query: Record<string, string>;
+  headers: Record<string, string>;
+  body?: any;
+}
+
+/**
+ * An error response to return instead of handling matching requests.
+ */
+export interface FakeErrorRule {
+  status: number;
+  /** Response body, e.g. `{ detail: '...', error_code: 'CREDIT_LIMIT_EXCEEDED' }`. */
+  body?: any;
+  headers?: Record<string, string>;
+  /** Only match this HTTP method. */
+  method?: string;
+  /** Only match this path, e.g. `/memories/search`, or paths matching the pattern. */
+  path?: string | RegExp;
+  /** Number of requests to fail before the rule expires. Defaults to 1; use `Infinity` to keep failing. */
+  times?: number;
+}
+
+/** Produces the assistant reply for a chat completion request. */
+export type FakeChatResponder = (request: ChatCompletionRequest) => string | ChatMessage;
+
+export interface FakeMieltoServerOptions {
+  /** Reply to chat completions. Defaults to echoing the last user message. */
+  chat?: FakeChatResponder;
+}
+
+/** Common error responses for `FakeMieltoServer.injectError`. */
+export const fakeErrors = {
+  paymentRequired: (): FakeErrorRule => ({
+    status: 402,
+    body: { detail: 'Payment required' },
+  }),
+  rateLimited: (retryAfterSeconds: number = 1): FakeErrorRule => ({
+    status: 429,
+    headers: { 'retry-after': String(retryAfterSeconds) },
+    body: { detail: 'Rate limit exceeded' },
+  }),
+  creditLimitExceeded: (): FakeErrorRule => ({
+    status: 402,
+    body: { detail: 'Credit limit exceeded', error_code: 'CREDIT_LIMIT_EXCEEDED' },
+  }),
+  overageLimitExceeded: (): FakeErrorRule => ({
+    status: 402,
+    body: { detail: 'Overage limit exceeded', error_code: 'OVERAGE_LIMIT_EXCEEDED' },
+  }),
+  serverError: (status: number = 500): FakeErrorRule => ({
+    status,
+    body: { detail: 'Internal server error' },
+  }),
+};
+
+interface StoredChunk extends Chunk {
+  collection_id: string;
+}
+
+interface RouteResult {
+  status: number;
+  data?: any;
+  body?: ReadableStream<Uint8Array>;
+  headers?: Record<string, string>;
+}
+
+const RESOURCE_PATH = /\/(memories|collections|upload|chunks|compress|chat)(\/.*)?$/;
+
+/**
+ * Path of a request URL relative to the API base URL, e.g. `/memories/search`.
+ */
+export function getResourcePath(url: URL): string {
+  const match = RESOURCE_PATH.exec(url.pathname);
+  return match ? match[0] : url.pathname;
+}
+
+/**
+ * In-memory implementation of the Mielto API that plugs into `Mielto` as a
+ * transport. State persists across requests until `reset()` is called.
+ *
+ * @example
+ * ```typescript
+ * import { FakeMieltoServer, fakeErrors } from 'mielto/testing';
+ *
+ * const server = new FakeMieltoServer();
+ * const client = server.createClient();
+ *
+ * await client.memories.create({ user_id: 'user_123', memory: 'Prefers dark mode' });
+ * server.injectError({ ...fakeErrors.rateLimited(), path: '/memories/search' });
+ * ```
+ */
+export class FakeMieltoServer implements Transport {
+  readonly memories = new Map<string, Memory>();
+  readonly collections = new Map<string, Collection>();
+  readonly chunks = new Map<string, StoredChunk>();
+  /** Every request received, in order. */
+  readonly requests: FakeRequest[] = [];
+  private errors: FakeErrorRule[] = [];
+  private chatResponder: FakeChatResponder;
+  private counter = 0;
+
+  constructor(options: FakeMieltoServerOptions = {}) {
+    this.chatResponder = options.chat || defaultChatResponder;
+  }
+
+  /**
+   * Create a client wired to this server. Retries are disabled unless overridden.
+   */
+  createClient(options: MieltoOptions = {}): Mielto {
+    return new Mielto({ apiKey: 'test-api-key', maxRetries: 0, ...options, transport: this });
+  }
+
+  /**
+   * Fail matching requests with the given status and body.
+   * Rules are checked in the order they were added.
+   */
+  injectError(rule: FakeErrorRule): this {
+    this.errors.push({ times: 1, ...rule });
+    return this;
+  }
+
+  clearErrors(): void {
+    this.errors = [];
+  }
+
+  /** Remove all stored data, recorded requests and injected errors. */
+  reset(): void {
+    this.memories.clear();
+    this.collections.clear();
+    this.chunks.clear();
+    this.requests.length = 0;
+    this.errors = [];
+    this.counter = 0;
+  }
+
+  async request(request: TransportRequest): Promise<TransportResponse> {
+    const url = new URL(request.url);
+    const headers: Record<string, string> = {};
+    for (const [name, value] of Object.entries(request.headers)) {
+      headers[name.toLowerCase()] = value;
+    }
+    const fakeRequest: FakeRequest = {
+      method: request.method.toUpperCase(),
+      path: getResourcePath(url),
+      query: Object.fromEntries(url.searchParams),
+      headers,
+      body: request.body ? JSON.parse(request.body) : undefined,
+    };
+    this.requests.push(fakeRequest);
+
+    const result = this.takeError(fakeRequest) || this.route(fakeRequest, request.stream);
+    return {
+      status: result.status,
+      headers: { 'x-request-id': `req_${this.nextId()}`, ...result.headers },
+      data: result.data,
+      body: result.body,
+    };
+  }
+
+  private takeError(request: FakeRequest): RouteResult | undefined {
+    const index = this.errors.findIndex(rule => {
+      if (rule.method && rule.method.toUpperCase() !== request.method) return false;
+      if (typeof rule.path === 'string' && rule.path !== request.path) return false;
+      if (rule.path instanceof RegExp && !rule.path.test(request.path)) return false;
+      return true;
+    });
+    if (index === -1) {
+      return undefined;
+    }
+    const rule = this.errors[index];
+    rule.times = (rule.times ?? 1) - 1;
+    if (rule.times <= 0) {
+      this.errors.splice(index, 1);
+    }
+    return { status: rule.status, data: rule.body, headers: rule.headers };
+  }
+
+  private route(request: FakeRequest, stream?: boolean): RouteResult {
+    const [resource, id, action] = request.path.split('/').filter(Boolean);
+    const { method } = request;
+
+    switch (resource) {
+      case 'memories':
+        if (id === 'search' && method === 'POST') return this.searchMemories(request.body);
+        if (id === 'from_messages' && method === 'POST') return this.memoriesFromMessages(request.body);
+        if (id === 'chunks' && method === 'GET') return this.memoryChunks(request.query);
+        if (id === 'profile' && method === 'GET') return this.memoryProfile(request.query);
+        if (!id && method === 'POST') return this.createMemory(request.body);
+        if (!id && method === 'GET') return this.listMemories(request.query);
+        if (id && action === 'replace' && method === 'POST') return this.updateMemory(id, request.body, true);
+        if (id && !action && method === 'GET') return this.getMemory(id);
+        if (id && !action && method === 'PUT') return this.updateMemory(id, request.body, false);
+        if (id && !action && method === 'DELETE') return this.deleteMemory(id);
+        break;
+      case 'collections':
+        if (id === 'search' && method === 'POST') return this.searchCollection(request.body);
+        if (!id && method === 'POST') return this.createCollection(request.body);
+        if (!id && method === 'GET') return this.listCollections(request.query);
+        if (id && method === 'GET') return this.getCollection(id);
+        if (id && method === 'PUT') return this.updateCollection(id, request.body);
+        if (id && method === 'DELETE') return this.deleteCollection(id);
+        break;
+      case 'upload':
+        if (method === 'POST') return this.upload(request.body);
+        break;
+      case 'chunks':
+        if (method === 'GET') return this.listChunks(request.headers['x-collection-id'], request.query);
+        break;
+      case 'compress':
+        if (method === 'POST') return this.compress(request.body);
+        break;
+      case 'chat':
+        if (id === 'completions' && method === 'POST') return this.chatCompletion(request.body, stream);
+        break;
+    }
+    return notFound(`No route for ${method} ${request.path}`);
+  }
+
+  // ============= MEMORIES =============
+
+  private createMemory(body: any): RouteResult {
+    if (!body?.user_id || !body?.memory) {
+      return validationError('user_id and memory are required');
+    }
+    const now = new Date().toISOString();
+    const memory: Memory = {
+      memory_id: `mem_${this.nextId()}`,
+      user_id: body.user_id,
+      memory: body.memory,
+      topics: body.topics || [],
+      metadata: body.metadata || {},
+      created_at: now,
+      updated_at: now,
+    };
+    this.memories.set(memory.memory_id, memory);
+    return { status: 201, data: { memory } };
+  }
+
+  private getMemory(memoryId: string): RouteResult {
+    const memory = this.memories.get(memoryId);
+    return memory ? { status: 200, data: memory } : notFound('Memory not found');
+  }
+
+  private updateMemory(memoryId: string, body: any, replace: boolean): RouteResult {
+    const memory = this.memories.get(memoryId);
+    if (!memory) {
+      return notFound('Memory not found');
+    }
+    const updated: Memory = {
+      ...memory,
+      memory: body?.memory ?? memory.memory,
+      topics: body?.topics ?? (replace ? [] : memory.topics),
+      metadata: body?.metadata ?? (replace ? {} : memory.metadata),
+      updated_at: new Date().toISOString(),
+    };
+    this.memories.set(memoryId, updated);
+    return { status: 200, data: replace ? updated : { memory: updated } };
+  }
+
+  private deleteMemory(memoryId: string): RouteResult {
+    if (!this.memories.delete(memoryId)) {
+      return notFound('Memory not found');
+    }
+    return { status: 204 };
+  }
+
+  private listMemories(query: Record<string, string>): RouteResult {
+    const field = (query.sort_by || 'updated_at') as keyof Memory;
+    const direction = query.sort_order === 'asc' ? 1 : -1;
+    const memories = this.userMemories(query.user_id).sort(
+      (a, b) => String(a[field] ?? '').localeCompare(String(b[field] ?? '')) * direction
+    );
+    return { status: 200, data: paginate(memories, query) };
+  }
+
+  private searchMemories(body: any): RouteResult {
+    if (!body?.query) {
+      return validationError('query is required');
+    }
+    const memories = this.userMemories(body.user_id)
+      .map(memory => ({ memory, score: scoreText(body.query, memory.memory) }))
+      .filter(({ score }) => score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, body.limit || 10)
+      .map(({ memory }) => memory);
+    return {
+      status: 200,
+      data: {
+        memories,
+        total_results: memories.length,
+        query: body.query,
+        retrieval_method: body.retrieval_method || 'hybrid',
+      },
+    };
+  }
+
+  private memoriesFromMessages(body: any): RouteResult {
+    if (!body?.user_id || !Array.isArray(body?.messages)) {
+      return validationError('user_id and messages are required');
+    }
+    const created = body.messages
+      .filter((message: any) => message.role === 'user' && typeof message.content === 'string')
+      .map((message: any) => this.createMemory({ user_id: body.user_id, memory: message.content }).data.memory);
+    return {
+      status: 200,
+      data: {
+        message: `Created ${created.length} memories`,
+        result: { memories_created: created.length, memory_ids: created.map((m: Memory) => m.memory_id) },
+        memories: created,
+      },
+    };
+  }
+
+  private memoryChunks(query: Record<string, string>): RouteResult {
+    const chunks = this.userMemories(query.user_id).map(memory => ({
+      id: `chunk_${memory.memory_id}`,
+      content: memory.memory,
+      content_id: memory.memory_id,
+      metadata: memory.metadata,
+    }));
+    return { status: 200, data: paginate(chunks, query) };
+  }
+
+  private memoryProfile(query: Record<string, string>): RouteResult {
+    if (!query.user_id) {
+      return validationError('user_id is required');
+    }
+    const memories = this.userMemories(query.user_id);
+    return {
+      status: 200,
+      data: {
+        user_id: query.user_id,
+        profile: null,
+        structured_profile: memories.length > 0 ? { memory_count: memories.length } : null,
+      },
+    };
+  }
+
+  private userMemories(userId?: string): Memory[] {
+    return [...this.memories.values()].filter(memory => !userId || memory.user_id === userId);
+  }
+
+  // ============= COLLECTIONS =============
+
+  private createCollection(body: any): RouteResult {
+    if (!body?.name) {
+      return validationError('name is required');
+    }
+    const now = new Date().toISOString();
+    const collection: Collection = {
+      id: `col_${this.nextId()}`,
+      name: body.name,
+      description: body.description,
+      store_type: body.store_type || 'pgvector',
+      visibility: body.visibility || 'private',
+      status: 'active',
+      tags: body.tags || [],
+      parent_id: body.parent_id,
+      meta_data: body.meta_data || {},
+      settings: body.settings || {},
+      embedding: body.embedding,
+      workspace_id: 'ws_test',
+      created_at: now,
+      updated_at: now,
+    };
+    this.collections.set(collection.id, collection);
+    return { status: 201, data: collection };
+  }
+
+  private getCollection(collectionId: string): RouteResult {
+    const collection = this.collections.get(collectionId);
+    return collection ? { status: 200, data: collection } : notFound('Collection not found');
+  }
+
+  private listCollections(query: Record<string, string>): RouteResult {
+    const tags = query.tags ? query.tags.split(',') : [];
+    const collections = [...this.collections.values()].filter(collection =>
+      (!query.status || collection.status === query.status) &&
+      (!query.visibility || collection.visibility === query.visibility) &&
+      (!query.search || collection.name.toLowerCase().includes(query.search.toLowerCase())) &&
+      tags.every(tag => collection.tags?.includes(tag))
+    );
+    const skip = parseInt(query.skip || '0', 10);
+    const limit = parseInt(query.limit || '100', 10);
+    return {
+      status: 200,
+      data: {
+        data: collections.slice(skip, skip + limit),
+        total_count: collections.length,
+        page: Math.floor(skip / limit) + 1,
+        limit,
+      },
+    };
+  }
+
+  private updateCollection(collectionId: string, body: any): RouteResult {
+    const collection = this.collections.get(collectionId);
+    if (!collection) {
+      return notFound('Collection not found');
+    }
+    const updated: Collection = { ...collection, ...body, id: collectionId, updated_at: new Date().toISOString() };
+    this.collections.set(collectionId, updated);
+    return { status: 200, data: updated };
+  }
+
+  private deleteCollection(collectionId: string): RouteResult {
+    if (!this.collections.delete(collectionId)) {
+      return notFound('Collection not found');
+    }
+    for (const [chunkId, chunk] of this.chunks) {
+      if (chunk.collection_id === collectionId) {
+        this.chunks.delete(chunkId);
+      }
+    }
+    return {
+      status: 202,
+      data: {
+        message: 'Collection deletion started',
+        collection_id: collectionId,
+        status: 'deleting',
+        job_id: `job_${this.nextId()}`,
+      },
+    };
+  }
+
+  private upload(body: any): RouteResult {
+    if (!body?.collection_id) {
+      return validationError('collection_id is required');
+    }
+    if (!this.collections.has(body.collection_id)) {
+      return notFound('Collection not found');
+    }
+
+    const sources: Array<{ name: string; text: string; type: string }> = [];
+    if (body.content_type === 'text' && body.content) {
+      sources.push({ name: body.label || 'text', text: body.content, type: 'text' });
+    }
+    for (const file of body.files || []) {
+      sources.push({ name: file.label, text: decodeBase64(file.file), type: 'file' });
+    }
+    for (const url of body.urls || []) {
+      sources.push({ name: url, text: `Content from ${url}`, type: 'url' });
+    }
+    if (sources.length === 0) {
+      return validationError('No content to upload');
+    }
+
+    const contents: UploadContent[] = sources.map(source => {
+      const content: UploadContent = {
+        id: `cnt_${this.nextId()}`,
+        name: source.name,
+        content_type: source.type,
+        status: body.ingest === false ? 'uploaded' : 'completed',
+      };
+      if (body.ingest !== false) {
+        for (const text of splitIntoChunks(source.text)) {
+          const now = new Date().toISOString();
+          const chunk: StoredChunk = {
+            id: `chunk_${this.nextId()}`,
+            content: text,
+            content_id: content.id,
+            metadata: { ...body.metadata, source: source.name },
+            collection_id: body.collection_id,
+            created_at: now,
+            updated_at: now,
+          };
+          this.chunks.set(chunk.id, chunk);
+        }
+      }
+      return content;
+    });
+
+    return {
+      status: 200,
+      data: {
+        status: 'success',
+        total_uploads: contents.length,
+        successful_uploads: contents.length,
+        failed_uploads: 0,
+        contents,
+        successful: contents,
+        errors: [],
+      },
+    };
+  }
+
+  private listChunks(collectionId: string | undefined, query: Record<string, string>): RouteResult {
+    if (!collectionId) {
+      return validationError('X-Collection-Id header is required');
+    }
+    const chunks = [...this.chunks.values()]
+      .filter(chunk => chunk.collection_id === collectionId)
+      .filter(chunk => !query.content_id || chunk.content_id === query.content_id)
+      .map(({ collection_id, ...chunk }) => chunk);
+    return { status: 200, data: paginate(chunks, query) };
+  }
+
+  private searchCollection(body: any): RouteResult {
+    if (!body?.query || !body?.collection_id) {
+      return validationError('query and collection_id are required');
+    }
+    if (!this.collections.has(body.collection_id)) {
+      return notFound('Collection not found');
+    }
+    const threshold = body.score_threshold ?? 0;
+    const results: SearchResult[] = [...this.chunks.values()]
+      .filter(chunk => chunk.collection_id === body.collection_id)
+      .map(chunk => ({
+        content: chunk.content,
+        score: scoreText(body.query, chunk.content),
+        metadata: chunk.metadata,
+        content_id: chunk.content_id,
+        source: chunk.metadata?.source,
+      }))
+      .filter(result => result.score > 0 && result.score >= threshold)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, body.k || 10);
+    return {
+      status: 200,
+      data: {
+        results,
+        total_results: results.length,
+        query: body.query,
+        search_type: body.search_type || 'hybrid',
+      },
+    };
+  }
+
+  // ============= COMPRESS =============
+
+  private compress(body: any): RouteResult {
+    if (body?.content === undefined) {
+      return validationError('content is required');
+    }
+    const original = typeof body.content === 'string'
+      ? body.content
+      : body.content.map((m: any) => `${m.role ? `${m.role}: ` : ''}${m.message ?? m.content ?? ''}`).join('\n');
+    const compressed = original.replace(/\s+/g, ' ').trim();
+
+    if (body.webhook_url) {
+      return { status: 202, data: { status: 'processing', message: 'Compression is being processed' } };
+    }
+    return {
+      status: 200,
+      data: {
+        status: 'success',
+        content: compressed,
+        compression_time: 0,
+        original_length: original.length,
+        compressed_length: compressed.length,
+      },
+    };
+  }
+
+  // ============= CHAT =============
+
+  private chatCompletion(body: ChatCompletionRequest, stream?: boolean): RouteResult {
+    if (!body?.model || !Array.isArray(body?.messages)) {
+      return validationError('model and messages are required');
+    }
+    const reply = this.chatResponder(body);
+    const message: ChatMessage = typeof reply === 'string' ? { role: 'assistant', content: reply } : reply;
+    const finishReason = message.tool_calls?.length ? 'tool_calls' : 'stop';
+    const id = `chatcmpl_${this.nextId()}`;
+    const created = Math.floor(Date.now() / 1000);
+    const usage = estimateUsage(body.messages, message);
+
+    if (!stream) {
+      const completion: ChatCompletion = {
+        id,
+        object: 'chat.completion',
+        created,
+        model: body.model,
+        choices: [{ index: 0, message, finish_reason: finishReason }],
+        usage,
+      };
+      return { status: 200, data: completion };
+    }
+
+    const chunk = (delta: ChatCompletionChunk['choices'][number]['delta'], finish: string | null = null) => ({
+      id,
+      object: 'chat.completion.chunk',
+      created,
+      model: body.model,
+      choices: [{ index: 0, delta, finish_reason: finish }],
+    });
+    const events: any[] = [chunk({ role: 'assistant', content: '' })];
+    const content = typeof message.content === 'string' ? message.content : '';
+    for (const piece of content.match(/\S+\s*|\s+/g) || []) {
+      events.push(chunk({ content: piece }));
+    }
+    message.tool_calls?.forEach((call, index) => {
+      events.push(chunk({
+        tool_calls: [{ index, id: call.id, type: 'function', function: { name: call.function?.name, arguments: '' } }],
+      }));
+      events.push(chunk({ tool_calls: [{ index, function: { arguments: call.function?.arguments ?? '' } }] }));
+    });
+    events.push(chunk({}, finishReason));
+    if (body.stream_options?.include_usage) {
+      events.push({ ...chunk({}), choices: [], usage });
+    }
+
+    return {
+      status: 200,
+      headers: { 'content-type': 'text/event-stream' },
+      body: sseStream(events),
+    };
+  }
+
+  private nextId(): number {
+    this.counter += 1;
+    return this.counter;
+  }
+}
+
+function defaultChatResponder(request: ChatCompletionRequest): string {
+  const lastUser = [...request.messages].reverse().find(message => message.role === 'user');
+  const content = typeof lastUser?.content === 'string' ? lastUser.content : '';
+  return `Echo: ${content}`;
+}
+
+function notFound(detail: string): RouteResult {
+  return { status: 404, data: { detail } };
+}
+
+function validationError(detail: string): RouteResult {
+  return { status: 422, data: { detail } };
+}
+
+/**
+ * Cursor pagination matching `MemoryListResponse` and `ChunksResponse`.
+ * Cursors are opaque offsets.
+ */
+function paginate<T>(items: T[], query: Record<string, string>) {
+  const limit = parseInt(query.limit || '50', 10);
+  const offset = query.cursor ? parseInt(query.cursor.replace(/^cursor_/, ''), 10) || 0 : 0;
+  const page = items.slice(offset, offset + limit);
+  const hasMore = offset + limit < items.length;
+  return {
+    data: page,
+    total_count: items.length,
+    next_cursor: hasMore ? `cursor_${offset + limit}` : null,
+    has_more: hasMore,
+  };
+}
+
+/**
+ * Fraction of query terms found in the text, as a stand-in for relevance.
+ */
+function scoreText(query: string, text: string): number {
+  const terms = query.toLowerCase().split(/\W+/).filter(Boolean);
+  if (terms.length === 0) {
+    return 0;
+  }
+  const haystack = text.toLowerCase();
+  return terms.filter(term => haystack.includes(term)).length / terms.length;
+}
+
+function splitIntoChunks(text: string, maxLength: number = 1000): string[] {
+  const chunks: string[] = [];
+  for (const paragraph of text.split(/\n\s*\n/)) {
+    const trimmed = paragraph.trim();
+    for (let i = 0; i < trimmed.length; i += maxLength) {
+      chunks.push(trimmed.slice(i, i + maxLength));
+    }
+  }
+  return chunks;
+}
+
+function decodeBase64(data: string): string {
+  try {
+    const binary = atob(data);
+    return new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+  } catch {
+    return data;
+  }
+}
+
+function estimateUsage(messages: Array<ChatMessage | Record<string, any>>, reply: ChatMessage): ChatCompletionUsage {
+  const tokens = (value: unknown) =>
+    value == null ? 0 : Math.ceil((typeof value === 'string' ? value : JSON.stringify(value)).length / 4);
+  const promptTokens = messages.reduce((sum, message) => sum + tokens(message.content), 0);
+  const completionTokens = tokens(reply.content) + tokens(reply.tool_calls);
+  return {
+    prompt_tokens: promptTokens,
+    completion_tokens: completionTokens,
+    total_tokens: promptTokens + completionTokens,
+  };
+}
+
+function sseStream(events: any[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const lines = [...events.map(event => `data: ${JSON.stringify(event)}\n\n`), 'data: [DONE]\n\n'];
+  return new ReadableStream<Uint8Array>({
+    pull(controller) {
+      const line = lines.shift();
+      if (line === undefined) {
+        controller.close();
+      } else {
+        controller.enqueue(encoder.encode(line));
+      }
+    },
+  });
+}
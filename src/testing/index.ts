@@ -0,0 +1,32 @@
+/**
+ * Mielto test kit - an in-memory fake of the Mielto API for offline unit tests,
+ * and a record/replay transport for deterministic integration tests.
+ *
+ * @example
+ * ```typescript
+ * import { FakeMieltoServer, fakeErrors } from 'mielto/testing';
+ *
+ * const server = new FakeMieltoServer();
+ * const client = server.createClient();
+ *
+ * server.injectError({ ...fakeErrors.creditLimitExceeded(), path: '/chat/completions' });
+ * await expect(client.chat.completions.create({ model: 'gpt-4o', messages })).rejects.toThrow(CreditLimitExceededError);
+ * ```
+ */
+
+export { FakeMieltoServer, fakeErrors } from './fake-server';
+export type {
+  FakeMieltoServerOptions,
+  FakeRequest,
+  FakeErrorRule,
+  FakeChatResponder,
+} from './fake-server';
+export { CassetteTransport, CassetteMismatchError } from './cassette';
+export type {
+  CassetteMode,
+  CassetteTransportOptions,
+  Cassette,
+  CassetteInteraction,
+  CassetteRequest,
+  CassetteResponse,
+} from './cassette';
@@ -0,0 +1,273 @@
+/**
+ * Local token counting, to budget prompts built from messages, memories and search results before sending them.
+ */
+
+import { MieltoError } from './exceptions';
+import { ChatMessage } from './types/chat';
+import { Memory } from './types/memory';
+import { SearchResult } from './types/collection';
+
+/**
+ * Turns text into tokens: an object with `encode()`, such as a `js-tiktoken`
+ * encoding, or a function returning the token count.
+ */
+export type TokenEncoder = { encode(text: string): ArrayLike<number> } | ((text: string) => number);
+
+export interface TokenCounterOptions {
+  /** Encoder for the target model. Defaults to `approximateTokens`. */
+  encoder?: TokenEncoder;
+  /** Tokens added per chat message for its role and delimiters. Defaults to 3. */
+  tokensPerMessage?: number;
+  /** Tokens added per message list for priming the reply. Defaults to 3. */
+  tokensPerReply?: number;
+}
+
+/** Items `fitToBudget` can count without a `count` option. */
+export type CountableItem = string | ChatMessage | Memory | SearchResult;
+
+export interface FitToBudgetOptions<T> {
+  /** Tokens of one item. Required for items other than strings, messages, memories and search results. */
+  count?: (item: T) => number;
+  /**
+   * Relevance of an item; the lowest are dropped first. Defaults to the item's
+   * `score`, or to list order (earlier is higher) for items without one, such
+   * as `memories.search` results.
+   */
+  score?: (item: T, index: number) => number;
+}
+
+export interface FitToBudgetResult<T> {
+  /** Items that fit, in their original order. */
+  items: T[];
+  /** Items dropped to meet the budget, lowest score first. */
+  dropped: T[];
+  /** Tokens of the kept items. */
+  tokens: number;
+}
+
+const DEFAULT_TOKENS_PER_MESSAGE = 3;
+const DEFAULT_TOKENS_PER_REPLY = 3;
+
+/** Single CJK characters, letter runs, digit runs and single punctuation marks. */
+const TOKEN_PIECE =
+  /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]|\p{L}+|\p{N}+|[^\s\p{L}\p{N}]/gu;
+
+/**
+ * Estimate the tokens of a text without a model-specific encoder.
+ *
+ * Counts words, number groups and punctuation the way BPE tokenizers of
+ * GPT-style models split them; typically within 10-15% for English prose and
+ * code. Characters of CJK scripts count as one token each.
+ */
+export function approximateTokens(text: string): number {
+  let tokens = 0;
+  for (const [piece] of text.matchAll(TOKEN_PIECE)) {
+    if (/^\p{N}/u.test(piece)) {
+      // Digits are split into groups of three
+      tokens += Math.ceil(piece.length / 3);
+    } else if (/^\p{L}/u.test(piece)) {
+      // Common words are one token; long words split into ~6-character pieces
+      tokens += 1 + Math.floor((piece.length - 1) / 6);
+    } else {
+      tokens += 1;
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Counts tokens of text, chat messages, memories and search results.
+ *
+ * Uses `approximateTokens` unless given an encoder for the target model.
+ * Message counts include the per-message overhead of chat formats, so they
+ * are close to the `prompt_tokens` the API reports.
+ *
+ * @example
+ * ```typescript
+ * import { getEncoding } from 'js-tiktoken';
+ *
+ * const counter = new TokenCounter({ encoder: getEncoding('o200k_base') });
+ * const { memories } = await client.memories.search({ query, user_id: 'user_123' });
+ * const { items } = counter.fitToBudget(memories, 1500);
+ * ```
+ */
+export class TokenCounter {
+  private encoder: TokenEncoder;
+  private tokensPerMessage: number;
+  private tokensPerReply: number;
+
+  constructor(options: TokenCounterOptions = {}) {
+    this.encoder = options.encoder || approximateTokens;
+    this.tokensPerMessage = options.tokensPerMessage ?? DEFAULT_TOKENS_PER_MESSAGE;
+    this.tokensPerReply = options.tokensPerReply ?? DEFAULT_TOKENS_PER_REPLY;
+  }
+
+  /**
+   * Tokens of a text.
+   */
+  count(text: string): number {
+    if (!text) {
+      return 0;
+    }
+    return typeof this.encoder === 'function' ? this.encoder(text) : this.encoder.encode(text).length;
+  }
+
+  /**
+   * Tokens of a chat request's messages, including tool calls and the reply priming.
+   * Only the text parts of multi-part content are counted.
+   */
+  countMessages(messages: Array<ChatMessage | Record<string, any>>): number {
+    if (messages.length === 0) {
+      return 0;
+    }
+    let tokens = this.tokensPerReply;
+    for (const message of messages) {
+      tokens += this.countMessage(message as ChatMessage);
+    }
+    return tokens;
+  }
+
+  /**
+   * Tokens of one message, without the reply priming of `countMessages`.
+   */
+  countMessage(message: ChatMessage): number {
+    let tokens = this.tokensPerMessage + this.count(message.role) + this.count(contentText(message.content));
+    if (message.name) {
+      tokens += this.count(message.name) + 1;
+    }
+    for (const toolCall of message.tool_calls || []) {
+      tokens +=
+        this.tokensPerMessage +
+        this.count(toolCall.function?.name ?? '') +
+        this.count(toolCall.function?.arguments ?? '');
+    }
+    if (message.function_call) {
+      tokens += this.count(message.function_call.name ?? '') + this.count(message.function_call.arguments ?? '');
+    }
+    if (message.tool_call_id) {
+      tokens += this.count(message.tool_call_id);
+    }
+    return tokens;
+  }
+
+  /**
+   * Tokens of memories' text, as injected into a prompt.
+   */
+  countMemories(memories: Memory[]): number {
+    return memories.reduce((tokens, memory) => tokens + this.count(memory.memory), 0);
+  }
+
+  /**
+   * Tokens of search results' content, as injected into a prompt.
+   */
+  countSearchResults(results: SearchResult[]): number {
+    return results.reduce((tokens, result) => tokens + this.count(result.content), 0);
+  }
+
+  /**
+   * Drop the lowest-scoring items until the rest fit in `budget` tokens.
+   *
+   * @param items - Strings, messages, memories or search results, or any items with a `count` option
+   * @param budget - Maximum tokens of the kept items
+   * @param options - How to count and rank items
+   */
+  fitToBudget<T extends CountableItem>(
+    items: T[],
+    budget: number,
+    options?: FitToBudgetOptions<T>
+  ): FitToBudgetResult<T>;
+  fitToBudget<T>(
+    items: T[],
+    budget: number,
+    options: FitToBudgetOptions<T> & { count: (item: T) => number }
+  ): FitToBudgetResult<T>;
+  fitToBudget<T>(items: T[], budget: number, options: FitToBudgetOptions<T> = {}): FitToBudgetResult<T> {
+    const count = options.count || ((item: T) => this.countItem(item));
+    const score = options.score || defaultScore;
+
+    const ranked = items.map((item, index) => ({ item, index, tokens: count(item), score: score(item, index) }));
+    let tokens = ranked.reduce((total, entry) => total + entry.tokens, 0);
+
+    // Lowest score first; among equal scores, later items go first
+    const dropOrder = [...ranked].sort((a, b) => a.score - b.score || b.index - a.index);
+    const dropped = new Set<number>();
+    for (const entry of dropOrder) {
+      if (tokens <= budget) break;
+      dropped.add(entry.index);
+      tokens -= entry.tokens;
+    }
+
+    return {
+      items: ranked.filter(entry => !dropped.has(entry.index)).map(entry => entry.item),
+      dropped: dropOrder.filter(entry => dropped.has(entry.index)).map(entry => entry.item),
+      tokens,
+    };
+  }
+
+  private countItem(item: unknown): number {
+    if (typeof item === 'string') {
+      return this.count(item);
+    }
+    if (item && typeof item === 'object') {
+      const value = item as Record<string, any>;
+      if (typeof value.role === 'string') {
+        return this.countMessage(value as ChatMessage);
+      }
+      if (typeof value.memory === 'string') {
+        return this.count(value.memory);
+      }
+      if (typeof value.content === 'string') {
+        return this.count(value.content);
+      }
+    }
+    throw new MieltoError(
+      'fitToBudget needs a `count` option for items that are not strings, messages, memories or search results'
+    );
+  }
+}
+
+const defaultCounter = new TokenCounter();
+
+/**
+ * Tokens of a text, estimated with `approximateTokens`. Use a `TokenCounter`
+ * with an encoder for exact counts.
+ */
+export function countTokens(text: string): number {
+  return defaultCounter.count(text);
+}
+
+/**
+ * Drop the lowest-scoring items until the rest fit in `budget` tokens, counting
+ * with `approximateTokens`. See `TokenCounter.fitToBudget`.
+ *
+ * @example
+ * ```typescript
+ * const { results } = await client.collections.search({ query, collection_id: 'docs' });
+ * const { items: context } = fitToBudget(results, 2000);
+ * ```
+ */
+export function fitToBudget<T extends CountableItem>(
+  items: T[],
+  budget: number,
+  options?: FitToBudgetOptions<T>
+): FitToBudgetResult<T>;
+export function fitToBudget<T>(
+  items: T[],
+  budget: number,
+  options: FitToBudgetOptions<T> & { count: (item: T) => number }
+): FitToBudgetResult<T>;
+export function fitToBudget<T>(items: T[], budget: number, options?: FitToBudgetOptions<T>): FitToBudgetResult<T> {
+  return defaultCounter.fitToBudget(items, budget, options as FitToBudgetOptions<T> & { count: (item: T) => number });
+}
+
+function defaultScore(item: unknown, index: number): number {
+  const score = item && typeof item === 'object' ? (item as Record<string, any>).score : undefined;
+  return typeof score === 'number' ? score : -index;
+}
+
+function contentText(content: ChatMessage['content']): string {
+  if (typeof content === 'string') {
+    return content;
+  }
+  return (content || []).map(part => (typeof part.text === 'string' ? part.text : '')).join('');
+}
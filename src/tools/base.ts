@@ -1,4 +1,6 @@
 import { Mielto, MieltoOptions } from "../clients/mielto"
+import type { ApiKeyProvider } from "../clients/base"
+import type { CircuitBreakerOptions } from "../clients/circuit-breaker"
 
 /**
  * Mielto tools configuration
@@ -6,9 +8,9 @@ import { Mielto, MieltoOptions } from "../clients/mielto"
 export interface MieltoToolsConfig {
 
 	/**
-	 * Mielto API key
+	 * Mielto API key, or a function returning one. Defaults to the MIELTO_API_KEY environment variable
 	 */
-	apiKey: string
+	apiKey?: string | ApiKeyProvider
 	/**
 	 * User ID for memory operations
 	 */
@@ -29,6 +31,10 @@ export interface MieltoToolsConfig {
 	 * Maximum number of retries
 	 */
 	maxRetries?: number
+	/**
+	 * Fail fast while an endpoint family is unhealthy; executors then return degraded results
+	 */
+	circuitBreaker?: boolean | CircuitBreakerOptions
 }
 
 /**
@@ -38,16 +44,19 @@ export type ToolType = "memory" | "collection" | "both"
 
 /**
  * Create a Mielto client instance
+ *
+ * Options missing from the config are read from the environment (see `Mielto.fromEnv`)
  */
 export function createMieltoClient(
-	config: MieltoToolsConfig
+	config: MieltoToolsConfig = {}
 ): Mielto {
 	const clientOptions: MieltoOptions = {
 		apiKey: config.apiKey,
 		baseUrl: config.baseUrl,
 		timeout: config.timeout,
 		maxRetries: config.maxRetries,
+		circuitBreaker: config.circuitBreaker,
 	}
-	return new Mielto(clientOptions)
+	return Mielto.fromEnv(clientOptions)
 }
 
@@ -52,7 +52,8 @@ function processZodType(zodType: z.ZodTypeAny): any {
 	} else if (zodType instanceof z.ZodEnum) {
 		// Extract enum values - handle both array and object formats
 		const enumDef = zodType._def as any
-		const enumValues = enumDef.values
+		// zod 3 keeps the values in `values`, zod 4 in `entries`
+		const enumValues = enumDef.values ?? enumDef.entries
 		return {
 			type: "string",
 			enum: Array.isArray(enumValues) ? enumValues : Object.values(enumValues),
@@ -64,7 +65,9 @@ function processZodType(zodType: z.ZodTypeAny): any {
 	} else if (zodType instanceof z.ZodDefault) {
 		// Handle default - unwrap and process inner type
 		const result = processZodType(zodType._def.innerType as z.ZodTypeAny)
-		const defaultValue = (zodType._def as any).defaultValue?.()
+		// zod 3 stores a factory, zod 4 the value itself
+		const rawDefault = (zodType._def as any).defaultValue
+		const defaultValue = typeof rawDefault === "function" ? rawDefault() : rawDefault
 		if (defaultValue !== undefined) {
 			result.default = defaultValue
 		}
@@ -2,6 +2,7 @@ import { Mielto } from "../clients/mielto"
 import { MieltoToolsConfig } from "./base"
 import { SearchType } from "../types/collection"
 import { getToolDefinitions } from "./definitions"
+import { CircuitOpenError, isMieltoError } from "../exceptions"
 
 /**
  * Create executors for all Mielto tools
@@ -37,10 +38,7 @@ export function createExecutors(
 					retrievalMethod: response.retrieval_method,
 				}
 			} catch (error) {
-				return {
-					success: false,
-					error: error instanceof Error ? error.message : "Unknown error",
-				}
+				return toErrorResult(error)
 			}
 		}
 
@@ -72,10 +70,7 @@ export function createExecutors(
 					memory: response,
 				}
 			} catch (error) {
-				return {
-					success: false,
-					error: error instanceof Error ? error.message : "Unknown error",
-				}
+				return toErrorResult(error)
 			}
 		}
 
@@ -103,10 +98,7 @@ export function createExecutors(
 					nextCursor: response.next_cursor,
 				}
 			} catch (error) {
-				return {
-					success: false,
-					error: error instanceof Error ? error.message : "Unknown error",
-				}
+				return toErrorResult(error)
 			}
 		}
 	}
@@ -148,10 +140,7 @@ export function createExecutors(
 					searchType: response.search_type,
 				}
 			} catch (error) {
-				return {
-					success: false,
-					error: error instanceof Error ? error.message : "Unknown error",
-				}
+				return toErrorResult(error)
 			}
 		}
 
@@ -195,10 +184,7 @@ export function createExecutors(
 					response,
 				}
 			} catch (error) {
-				return {
-					success: false,
-					error: error instanceof Error ? error.message : "Unknown error",
-				}
+				return toErrorResult(error)
 			}
 		}
 
@@ -226,10 +212,7 @@ export function createExecutors(
 					total: response.total_count,
 				}
 			} catch (error) {
-				return {
-					success: false,
-					error: error instanceof Error ? error.message : "Unknown error",
-				}
+				return toErrorResult(error)
 			}
 		}
 	}
@@ -261,13 +244,39 @@ export function createExecutors(
 				allTools: availableTools.map((t) => t.name),
 			}
 		} catch (error) {
-			return {
-				success: false,
-				error: error instanceof Error ? error.message : "Unknown error",
-			}
+			return toErrorResult(error)
 		}
 	}
 
 	return executors
 }
 
+/**
+ * Convert a thrown error into a tool result.
+ *
+ * An open circuit is reported as a degraded result so the agent can carry on
+ * without the tool instead of retrying it straight away.
+ */
+function toErrorResult(error: unknown): Record<string, any> {
+	if (error instanceof CircuitOpenError) {
+		return {
+			success: false,
+			degraded: true,
+			code: error.code,
+			error: `Mielto ${error.family ?? "API"} is temporarily unavailable. Continue without this tool.`,
+			retryAfterMs: error.retryAfterMs,
+		}
+	}
+	if (isMieltoError(error)) {
+		return {
+			success: false,
+			code: error.code,
+			retryable: error.isRetryable,
+			error: error.message,
+		}
+	}
+	return {
+		success: false,
+		error: error instanceof Error ? error.message : "Unknown error",
+	}
+}
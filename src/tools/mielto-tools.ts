@@ -34,13 +34,8 @@ export class MieltoTools {
 	) {
 		this.toolTypes = options?.toolTypes || "both"
 
-		if (client) {
-			this.client = client
-		} else if (config) {
-			this.client = createMieltoClient(config)
-		} else {
-			throw new Error("config or client is required")
-		}
+		// Without a config or client, credentials come from the environment
+		this.client = client || createMieltoClient(config)
 		
 		this.definitions = getToolDefinitions(this.toolTypes)
 		this.executors = createExecutors(this.client, config, this.toolTypes)
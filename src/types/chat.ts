@@ -24,6 +24,8 @@ export interface FunctionDefinition {
   name: string;
   description?: string;
   parameters: Record<string, any>;
+  /** Require the arguments to follow `parameters` exactly. */
+  strict?: boolean;
 }
 
 export interface ToolDefinition {
@@ -31,6 +33,17 @@ export interface ToolDefinition {
   function: FunctionDefinition;
 }
 
+/** A complete function call requested by the model. */
+export interface ChatToolCall {
+  id: string;
+  type: 'function';
+  function: {
+    name: string;
+    /** JSON-encoded arguments, as generated by the model. */
+    arguments: string;
+  };
+}
+
 export interface ChatCompletionChoice {
   index: number;
   message: ChatMessage;
@@ -66,6 +79,27 @@ export interface ChatCompletionChunk {
   created: number;
   model: string;
   choices: ChatCompletionChunkChoice[];
+  /** Set on the final chunk when `stream_options.include_usage` is requested. */
+  usage?: ChatCompletionUsage | null;
+}
+
+/** JSON schema the model's reply must follow, for `response_format: { type: 'json_schema' }`. */
+export interface ChatCompletionJSONSchema {
+  name: string;
+  description?: string;
+  schema: Record<string, any>;
+  /** Require the output to follow the schema exactly. */
+  strict?: boolean;
+}
+
+export type ChatCompletionResponseFormat =
+  | { type: 'text' }
+  | { type: 'json_object' }
+  | { type: 'json_schema'; json_schema: ChatCompletionJSONSchema };
+
+export interface ChatCompletionStreamOptions {
+  /** Send token usage in a final chunk with no choices. */
+  include_usage?: boolean;
 }
 
 export interface ChatCompletionRequest {
@@ -75,6 +109,7 @@ export interface ChatCompletionRequest {
   top_p?: number;
   n?: number;
   stream?: boolean;
+  stream_options?: ChatCompletionStreamOptions;
   stop?: string | string[];
   max_tokens?: number;
   presence_penalty?: number;
@@ -83,7 +118,7 @@ export interface ChatCompletionRequest {
   user?: string;
   tools?: Array<ToolDefinition | Record<string, any>>;
   tool_choice?: string | Record<string, any>;
-  response_format?: Record<string, any>;
+  response_format?: ChatCompletionResponseFormat;
   seed?: number;
   logprobs?: boolean;
   top_logprobs?: number;
@@ -95,3 +130,13 @@ export interface ChatCompletionRequest {
   collection_ids?: string[];
 }
 
+/** A chat completion request that streams chunks. */
+export interface ChatCompletionStreamingRequest extends ChatCompletionRequest {
+  stream: true;
+}
+
+/** A chat completion request that returns the whole completion at once. */
+export interface ChatCompletionNonStreamingRequest extends ChatCompletionRequest {
+  stream?: false;
+}
+
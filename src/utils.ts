@@ -1,7 +1,61 @@
 /**
- * Utility functions for file type detection and mimetype detection.
+ * Utility functions for environment access, file type detection and mimetype detection.
  */
 
+/**
+ * Read an environment variable in Node.js, Bun or Deno.
+ *
+ * @param name - Variable name
+ * @returns Trimmed value, or undefined when unset, empty or unavailable (browsers)
+ */
+export function readEnv(name: string): string | undefined {
+  let value: string | undefined;
+  if (typeof process !== 'undefined' && process.env) {
+    value = process.env[name];
+  } else if (typeof (globalThis as any).Deno !== 'undefined') {
+    try {
+      value = (globalThis as any).Deno.env?.get?.(name);
+    } catch {
+      // Deno throws without --allow-env
+      value = undefined;
+    }
+  }
+  value = value?.trim();
+  return value ? value : undefined;
+}
+
+/**
+ * Read a numeric environment variable.
+ *
+ * @param name - Variable name
+ * @returns Parsed integer, or undefined when unset or not a number
+ */
+export function readEnvInt(name: string): number | undefined {
+  const value = readEnv(name);
+  if (value === undefined) {
+    return undefined;
+  }
+  const parsed = parseInt(value, 10);
+  return isNaN(parsed) ? undefined : parsed;
+}
+
+/**
+ * Fill in fields that are missing from a request payload.
+ *
+ * @param data - Request payload; left unchanged
+ * @param defaults - Values to use where the payload has no value
+ * @returns A copy of the payload with defaults applied
+ */
+export function withDefaults<T extends Record<string, any>>(data: T, defaults: Record<string, any>): T {
+  const result: Record<string, any> = { ...data };
+  for (const [key, value] of Object.entries(defaults)) {
+    if (result[key] === undefined && value !== undefined) {
+      result[key] = value;
+    }
+  }
+  return result as T;
+}
+
 /**
  * Detect mimetype from a File or Blob object (browser environment).
  * Uses file-type library which works in both Node.js and browser.